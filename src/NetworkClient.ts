@@ -1,5 +1,45 @@
 import type { RequestStrategy, StrategyResult } from "./strategies/strategiesTypes.js";
-import { StrategyFactory, type StrategyConfig } from "./strategies/requestStrategy.js";
+import type { ProviderHealth } from "./strategies/circuitBreaker.js";
+import type { ProviderScore } from "./strategies/providerStats.js";
+import type { ProviderUsage } from "./strategies/loadBalancedStrategy.js";
+import {
+  StrategyFactory,
+  type DedupeOptions,
+  type MethodRoute,
+  type StrategyConfig,
+} from "./strategies/requestStrategy.js";
+import { closeTransports, matchMethod } from "./strategies/strategyUtils.js";
+import { BROADCAST_METHODS } from "./strategies/broadcastStrategy.js";
+import { type CacheStats, ResponseCache, cacheKey, resultValue } from "./cache/ResponseCache.js";
+import type { BatchRequest, RequestOptions, RpcClientOptions } from "./RpcClientTypes.js";
+import { callBatch, type Transport } from "./transports/Transport.js";
+import {
+  WebSocketTransport,
+  type Subscription,
+  type SubscriptionListener,
+  type WebSocketTransportOptions,
+} from "./transports/WebSocketTransport.js";
+
+/**
+ * Methods whose every call has an effect, so concurrent identical calls are never coalesced
+ */
+export const NON_IDEMPOTENT_METHODS = [
+  "eth_sendRawTransaction",
+  "eth_sendTransaction",
+  "node_sendTx",
+  "eth_sign",
+  "eth_signTransaction",
+  "eth_signTypedData*",
+  "personal_*",
+  // Each call installs a new filter or subscription that is removed on its own
+  "eth_new*",
+  "eth_subscribe",
+  "eth_unsubscribe",
+  "eth_uninstallFilter",
+  // Each call returns the changes since the previous one
+  "eth_getFilterChanges",
+  "nodeAdmin_*",
+];
 
 /**
  * Base network client that uses strategy pattern for RPC requests
@@ -8,21 +48,313 @@ import { StrategyFactory, type StrategyConfig } from "./strategies/requestStrate
 export class NetworkClient {
   protected strategy: RequestStrategy;
   protected rpcUrls: string[];
+  protected transports?: Transport[];
+  protected rpcOptions: RpcClientOptions;
+  protected wsUrl?: string;
+  protected wsOptions?: WebSocketTransportOptions;
+  /** Configuration the strategy was created from, reused when switching strategies */
+  protected config: StrategyConfig;
+  /** Strategies of the routed methods, keyed by method name or pattern */
+  protected routes: Map<string, RequestStrategy>;
+  /** Cache of immutable responses, when enabled */
+  protected cache?: ResponseCache;
+  /** Methods never coalesced; undefined when deduplication is disabled */
+  private dedupeExcluded?: Map<string, true>;
+  /** Requests in flight, keyed by method and canonical params */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  private inFlight = new Map<string, Promise<StrategyResult<any>>>();
+  private subscriptionTransport?: WebSocketTransport;
+  /**
+   * Transports created from provider URLs, per route ("" for the client's own)
+   * Strategies only get views of them, so they survive strategy updates
+   */
+  private urlTransports = new Map<string, Transport[]>();
 
-  constructor(config: StrategyConfig) {
-    this.strategy = StrategyFactory.create(config);
+  /**
+   * @param config - Strategy configuration with RPC URLs and strategy type
+   * @param chainId - Chain of the client, prefixing the persisted cache keys unless config.cache sets one
+   */
+  constructor(config: StrategyConfig, chainId?: number) {
+    this.strategy = this.createStrategy("", config);
     this.rpcUrls = config.rpcUrls;
+    this.transports = config.transports;
+    this.rpcOptions = { timeout: config.timeout, batch: config.batch, retry: config.retry };
+    // Subscriptions fall back to the first WebSocket provider URL
+    this.wsUrl = config.wsUrl ?? config.rpcUrls.find((url) => /^wss?:\/\//i.test(url));
+    this.wsOptions = config.wsOptions;
+    this.config = config;
+    this.routes = this.createRoutes(config);
+    if (config.cache) {
+      const options = config.cache === true ? {} : config.cache;
+      this.cache = new ResponseCache({ ...options, chainId: options.chainId ?? chainId });
+    }
+    if (config.dedupe) {
+      this.dedupeExcluded = this.createDedupeExclusions(
+        config.dedupe === true ? {} : config.dedupe,
+      );
+    }
   }
 
   /**
-   * Execute any RPC method with the configured strategy
+   * Execute any RPC method with the strategy routed for it
+   * With the cache enabled, immutable responses are served from the cache and
+   * block responses are checked for reorgs that invalidate cached ones
+   * With deduplication enabled, concurrent identical calls share one request
+   * unless the method is excluded, and each caller gets its own copy of the
+   * result; calls with an abort signal or their own timeout are always sent
+   * on their own
    * @param method - The RPC method name (e.g., "eth_blockNumber")
    * @param params - The method parameters
+   * @param options - Optional abort signal and per-request timeout
    * @returns Strategy result with data and optional metadata
    */
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[] = [],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    if (
+      !this.dedupeExcluded ||
+      options?.signal ||
+      options?.timeout !== undefined ||
+      matchMethod(this.dedupeExcluded, method)
+    ) {
+      return this.executeRequest<T>(method, params, options);
+    }
+
+    const key = cacheKey(method, params);
+    let request = this.inFlight.get(key);
+    if (!request) {
+      request = this.executeRequest<T>(method, params, options).finally(() => {
+        this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, request);
+    }
+    return request.then(copyResult);
+  }
+
+  private async executeRequest<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const strategy = this.getStrategyFor(method);
+    if (!this.cache) {
+      return strategy.execute<T>(method, params, options);
+    }
+
+    const cached = await this.cache.load<T>(method, params);
+    if (cached) {
+      return cached;
+    }
+    const result = await strategy.execute<T>(method, params, options);
+    await this.cache.store(method, params, result, () => this.getFinalizedBlockNumber());
+    return result;
+  }
+
+  /**
+   * Number of the latest finalized block, which decides when responses about
+   * blocks by number become immutable
+   * Clients of chains with other finality signals override it
+   */
+  protected async getFinalizedBlockNumber(): Promise<number | undefined> {
+    const result = await this.getStrategyFor("eth_getBlockByNumber").execute<{ number?: string }>(
+      "eth_getBlockByNumber",
+      ["finalized", false],
+    );
+    const number = resultValue(result)?.number;
+    return typeof number === "string" ? Number.parseInt(number, 16) : undefined;
+  }
+
+  /**
+   * Get the response cache hit, miss and size counters
+   * Undefined when the cache is disabled
+   */
+  getCacheStats(): CacheStats | undefined {
+    return this.cache?.getStats();
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Execute several RPC methods as a JSON-RPC batch with the configured strategy
+   * Items succeed or fail independently; items routed to different strategies
+   * are sent as separate batches, and strategies without batch support fall
+   * back to one request per item
+   * @param requests - The calls to send, e.g. [{ method: "eth_blockNumber" }]
+   * @param options - Optional abort signal and per-request timeout
+   * @returns One strategy result per request, in request order
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    const groups = new Map<RequestStrategy, number[]>();
+    requests.forEach((request, index) => {
+      const strategy = this.getStrategyFor(request.method);
+      groups.set(strategy, [...(groups.get(strategy) ?? []), index]);
+    });
+
+    const results: StrategyResult<T>[] = [];
+    const batches: Promise<void>[] = [];
+    groups.forEach((indexes, strategy) => {
+      const batch = indexes.map((index) => requests[index] as BatchRequest);
+      batches.push(
+        this.executeBatchWith<T>(strategy, batch, options).then((batchResults) => {
+          batchResults.forEach((result, position) => {
+            results[indexes[position] as number] = result;
+          });
+        }),
+      );
+    });
+    await Promise.all(batches);
+    return results;
+  }
+
+  /**
+   * Get the strategy that handles a method: its route, or the client's strategy
+   */
+  getStrategyFor(method: string): RequestStrategy {
+    return matchMethod(this.routes, method) ?? this.strategy;
+  }
+
   // biome-ignore lint/suspicious/noExplicitAny: <TODO>
-  async execute<T>(method: string, params: any[] = []): Promise<StrategyResult<T>> {
-    return this.strategy.execute<T>(method, params);
+  private async executeBatchWith<T = any>(
+    strategy: RequestStrategy,
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (strategy.executeBatch) {
+      return strategy.executeBatch<T>(requests, options);
+    }
+    return Promise.all(
+      requests.map((request) => strategy.execute<T>(request.method, request.params ?? [], options)),
+    );
+  }
+
+  /**
+   * Methods and patterns never coalesced: the non-idempotent ones and the configured exclusions
+   */
+  private createDedupeExclusions(options: DedupeOptions = {}): Map<string, true> {
+    const exclusions = new Map<string, true>();
+    for (const method of [...NON_IDEMPOTENT_METHODS, ...(options.exclude ?? [])]) {
+      exclusions.set(method, true);
+    }
+    return exclusions;
+  }
+
+  /**
+   * Create a strategy for each route, inheriting unset fields from the config
+   */
+  private createRoutes(config: StrategyConfig): Map<string, RequestStrategy> {
+    const broadcastRoutes: Record<string, MethodRoute> = {};
+    if (config.broadcastTransactions) {
+      for (const method of BROADCAST_METHODS) {
+        broadcastRoutes[method] = { type: "broadcast" };
+      }
+    }
+    // Explicit routes win over the broadcast defaults
+    const configRoutes = { ...broadcastRoutes, ...config.routes };
+
+    const routes = new Map<string, RequestStrategy>();
+    for (const pattern of Object.keys(configRoutes)) {
+      const route = configRoutes[pattern] as MethodRoute;
+      // Route providers replace the client's instead of adding to them
+      const ownProviders = route.rpcUrls !== undefined || route.transports !== undefined;
+      routes.set(
+        pattern,
+        this.createStrategy(pattern, {
+          ...config,
+          ...route,
+          rpcUrls: ownProviders ? (route.rpcUrls ?? []) : config.rpcUrls,
+          transports: ownProviders ? route.transports : config.transports,
+        }),
+      );
+    }
+    return routes;
+  }
+
+  /**
+   * Create a strategy over the transports of a route, reusing those already
+   * created for its URLs
+   * Closing the strategy leaves every transport open: the client closes the
+   * ones it created, and transports passed in by the caller stay the caller's
+   */
+  private createStrategy(route: string, config: StrategyConfig): RequestStrategy {
+    let created = this.urlTransports.get(route);
+    if (!created) {
+      created = StrategyFactory.createTransports(config);
+      this.urlTransports.set(route, created);
+    }
+    return StrategyFactory.create(
+      { ...config, transports: config.transports?.map(borrowTransport) },
+      created.map(borrowTransport),
+    );
+  }
+
+  /**
+   * Open an eth_subscribe subscription over the configured WebSocket endpoint
+   * (wsUrl, or the first ws(s):// URL in rpcUrls)
+   * The connection is created on first use and re-subscribes after reconnects
+   * With the cache enabled, newHeads notifications are checked for reorgs
+   * that invalidate cached responses
+   * @param params - eth_subscribe parameters, e.g. ["newHeads"]
+   * @param listener - Called with every notification result
+   * @param onError - Called if the subscription is lost for good
+   */
+  protected async subscribe<T>(
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    listener: SubscriptionListener<T>,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    if (!this.subscriptionTransport) {
+      if (!this.wsUrl) {
+        throw new Error("Subscriptions require a WebSocket URL (wsUrl or a ws(s):// rpcUrl)");
+      }
+      this.subscriptionTransport = new WebSocketTransport(this.wsUrl, {
+        timeout: this.rpcOptions.timeout,
+        ...this.wsOptions,
+      });
+    }
+    const cache = this.cache;
+    if (cache && params[0] === "newHeads") {
+      return this.subscriptionTransport.subscribe<T>(
+        params,
+        (head) => {
+          cache.observeHeader(head);
+          listener(head);
+        },
+        onError,
+      );
+    }
+    return this.subscriptionTransport.subscribe<T>(params, listener, onError);
+  }
+
+  /**
+   * Close provider and subscription connections, dropping all active subscriptions
+   * Pending cache storage writes still complete in the background
+   */
+  close(): void {
+    this.strategy.close?.();
+    this.routes.forEach((strategy) => {
+      strategy.close?.();
+    });
+    this.urlTransports.forEach((transports) => {
+      closeTransports(transports);
+    });
+    this.urlTransports.clear();
+    this.subscriptionTransport?.close();
+    this.subscriptionTransport = undefined;
+    void this.cache?.close();
   }
 
   /**
@@ -33,12 +365,36 @@ export class NetworkClient {
   }
 
   /**
-   * Get the strategy name (fallback or parallel)
+   * Get the strategy name (fallback, parallel, race, consensus, adaptive, hedged, balanced or broadcast)
    */
   getStrategyName(): string {
     return this.strategy.getName();
   }
 
+  /**
+   * Get the health and circuit state of each provider
+   * Empty when the current strategy does not track provider health
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.strategy.getProviderHealth?.() ?? [];
+  }
+
+  /**
+   * Get the latency and error rate scores of each provider, best first
+   * Empty when the current strategy does not rank providers
+   */
+  getProviderScores(): ProviderScore[] {
+    return this.strategy.getProviderScores?.() ?? [];
+  }
+
+  /**
+   * Get the request counts and budget usage of each provider
+   * Empty when the current strategy does not enforce budgets
+   */
+  getProviderUsage(): ProviderUsage[] {
+    return this.strategy.getProviderUsage?.() ?? [];
+  }
+
   /**
    * Get the RPC URLs
    */
@@ -48,11 +404,58 @@ export class NetworkClient {
 
   /**
    * Update Strategy
+   * Providers, transport options and strategy-specific config (including
+   * fields of custom strategies) are kept; routes without their own type
+   * switch along with the client's strategy
    */
   updateStrategy(type: StrategyConfig["type"]) {
-    this.strategy = StrategyFactory.create({
-      type,
-      rpcUrls: this.rpcUrls,
-    });
+    const previous = [this.strategy, ...Array.from(this.routes.values())];
+    this.config = { ...this.config, type };
+    this.strategy = this.createStrategy("", this.config);
+    this.routes = this.createRoutes(this.config);
+    // The transports carry over, so this only stops the old strategies' timers
+    // and requests in flight on them still complete
+    for (const strategy of previous) {
+      strategy.close?.();
+    }
+  }
+}
+
+/**
+ * View of a transport whose close() does nothing, handed to strategies
+ */
+function borrowTransport(transport: Transport): Transport {
+  const borrowed: Transport = {
+    call: (method, params, options) => transport.call(method, params, options),
+    getUrl: () => transport.getUrl(),
+    close: () => undefined,
+  };
+  if (transport.callBatch) {
+    borrowed.callBatch = (requests, options) => callBatch(transport, requests, options);
+  }
+  return borrowed;
+}
+
+/**
+ * Copy of a result shared by coalesced calls, so one caller's changes stay its own
+ * Plain objects and arrays are copied; errors and other class instances are kept
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+function copyResult(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(copyResult);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  const copy: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    copy[key] = copyResult(value[key]);
   }
+  return copy;
 }
@@ -0,0 +1,170 @@
+import {
+  ExecutionRevertedError,
+  HttpError,
+  JSON_RPC_ERROR_CODES,
+  JsonRpcError,
+  NetworkError,
+  RpcTimeoutError,
+} from "./RpcErrors.js";
+
+/**
+ * Controls how a provider request is retried after a transient failure
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 200) */
+  initialDelay?: number;
+  /** Upper bound for any single delay, including Retry-After (default 10000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each attempt (default 2) */
+  factor?: number;
+  /** Randomise delays between 0 and the computed backoff (default true) */
+  jitter?: boolean;
+  /** Override which errors are retried (default isRetryableError) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, "shouldRetry">> = {
+  maxAttempts: 3,
+  initialDelay: 200,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: true,
+};
+
+// Statuses that signal overload or a flaky gateway rather than a bad request
+const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const RATE_LIMIT_MESSAGE = /rate limit|limit exceeded|too many requests|request limit/i;
+
+/**
+ * Decide whether an error is transient and worth retrying on the same provider
+ * Timeouts, network failures, rate limits and gateway errors are retried;
+ * reverts and other JSON-RPC errors are deterministic and never retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ExecutionRevertedError) {
+    return false;
+  }
+  if (error instanceof RpcTimeoutError || error instanceof NetworkError) {
+    return true;
+  }
+  if (error instanceof HttpError) {
+    return RETRYABLE_HTTP_STATUSES.has(error.status);
+  }
+  if (error instanceof JsonRpcError) {
+    return isRateLimitError(error);
+  }
+  return false;
+}
+
+/**
+ * True when the provider rejected the request because of rate limiting
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 429;
+  }
+  if (error instanceof JsonRpcError) {
+    return (
+      error.code === JSON_RPC_ERROR_CODES.LIMIT_EXCEEDED || RATE_LIMIT_MESSAGE.test(error.message)
+    );
+  }
+  return false;
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next attempt
+ * A provider-supplied Retry-After wins over the exponential backoff
+ *
+ * @param error - Error from the failed attempt
+ * @param attempt - Number of the failed attempt, starting at 1
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions = {}): number {
+  // Filled field by field so options explicitly set to undefined keep their defaults
+  const initialDelay = options.initialDelay ?? DEFAULT_RETRY_OPTIONS.initialDelay;
+  const maxDelay = options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay;
+  const factor = options.factor ?? DEFAULT_RETRY_OPTIONS.factor;
+  const jitter = options.jitter ?? DEFAULT_RETRY_OPTIONS.jitter;
+
+  if (error instanceof HttpError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, maxDelay);
+  }
+
+  const backoff = Math.min(initialDelay * factor ** (attempt - 1), maxDelay);
+  return jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Run a request, retrying transient failures with exponential backoff
+ * Each attempt gets a fresh call to `request`; the signal also cancels the
+ * wait between attempts
+ *
+ * @param request - Performs one attempt, receives the attempt number starting at 1
+ * @param options - Retry options
+ * @param signal - Optional signal that stops further attempts
+ * @returns Result of the first successful attempt
+ * @throws The last error when attempts are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  request: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts);
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(error, attempt, options), signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error("Request aborted"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("Request aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
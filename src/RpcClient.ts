@@ -1,15 +1,65 @@
-import type { JsonRpcRequest, JsonRpcResponse } from "./RpcClientTypes.js";
+import type {
+  BatchingOptions,
+  BatchItemResult,
+  BatchRequest,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RequestOptions,
+  RpcClientOptions,
+} from "./RpcClientTypes.js";
+import {
+  createJsonRpcError,
+  HttpError,
+  InvalidResponseError,
+  NetworkError,
+  RpcError,
+  RpcTimeoutError,
+  toRpcError,
+} from "./RpcErrors.js";
+import { parseRetryAfter, type RetryOptions, withRetry } from "./RetryPolicy.js";
+import type { Transport } from "./transports/Transport.js";
 
-export class RpcClient {
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/**
+ * A call waiting in the micro-batching queue
+ */
+interface QueuedCall {
+  request: JsonRpcRequest;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+export class RpcClient implements Transport {
   private url: string;
   private requestId: number = 0;
+  private timeout?: number;
+  private batching?: Required<BatchingOptions>;
+  private queue: QueuedCall[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private batchUnsupported = false;
+  private retry?: RetryOptions;
 
-  constructor(url: string) {
+  constructor(url: string, options: RpcClientOptions = {}) {
     this.url = url;
+    this.timeout = options.timeout;
+
+    if (options.batch) {
+      const batching = options.batch === true ? {} : options.batch;
+      this.batching = {
+        wait: batching.wait ?? 0,
+        maxSize: Math.max(1, batching.maxSize ?? DEFAULT_MAX_BATCH_SIZE),
+      };
+    }
+
+    if (options.retry) {
+      this.retry = options.retry === true ? {} : options.retry;
+    }
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: <TODO>
-  async call<T>(method: string, params: any[] = []): Promise<T> {
+  async call<T>(method: string, params: any[] = [], options: RequestOptions = {}): Promise<T> {
     const request: JsonRpcRequest = {
       jsonrpc: "2.0",
       id: ++this.requestId,
@@ -17,31 +67,325 @@ export class RpcClient {
       params,
     };
 
-    const response = await fetch(this.url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
+    if (this.batching && !this.batchUnsupported) {
+      return this.enqueue<T>(request, options);
+    }
+
+    return this.send<T>(request, options);
+  }
+
+  /**
+   * Send several calls as a single JSON-RPC batch payload
+   * Responses are correlated by id, so the provider may return them in any order.
+   * Per-item JSON-RPC errors are reported in the returned array; only transport
+   * failures (HTTP error, timeout, abort, malformed body) reject the whole batch.
+   *
+   * @param requests - Calls to include in the batch
+   * @param options - Optional abort signal and timeout for the batch request
+   * @returns One result per request, in the same order as the requests
+   */
+  async callBatch<T = unknown>(
+    requests: BatchRequest[],
+    options: RequestOptions = {},
+  ): Promise<BatchItemResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const payload: JsonRpcRequest[] = requests.map((request) => ({
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method: request.method,
+      params: request.params ?? [],
+    }));
+
+    const body = await this.withRetry(async () => {
+      const response = await this.post<JsonRpcResponse<T>[] | JsonRpcResponse<T>>(payload, options);
+      if (!Array.isArray(response)) {
+        // Providers without batch support answer with a single error object
+        if (response.error) {
+          throw createJsonRpcError(response.error, this.url);
+        }
+        throw new InvalidResponseError("Invalid batch response: expected an array", this.url);
+      }
+      return response;
+    }, options.signal);
+
+    const responsesById = new Map<number | string, JsonRpcResponse<T>>();
+    for (const response of body) {
+      responsesById.set(response.id, response);
+    }
+
+    return payload.map((request) => {
+      const response = responsesById.get(request.id);
+      if (!response) {
+        return {
+          success: false,
+          error: new InvalidResponseError("Missing response for batch item", this.url),
+        };
+      }
+      try {
+        return { success: true, data: this.unwrap(response) };
+      } catch (error) {
+        return { success: false, error: toRpcError(error, this.url) };
+      }
+    });
+  }
+
+  /**
+   * Queue a call for the next micro-batch
+   * The caller's signal and timeout only settle this call; the shared batch
+   * request keeps going for the other calls in it
+   */
+  private enqueue<T>(request: JsonRpcRequest, options: RequestOptions): Promise<T> {
+    const batching = this.batching as Required<BatchingOptions>;
+    const { signal } = options;
+    const timeout = options.timeout ?? this.timeout;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason ?? new Error("Request aborted"));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.queue = this.queue.filter((queued) => queued !== entry);
+      };
+      const entry: QueuedCall = {
+        request,
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+      const onAbort = () => entry.reject(signal?.reason ?? new Error("Request aborted"));
+
+      signal?.addEventListener("abort", onAbort);
+      if (timeout !== undefined) {
+        timer = setTimeout(() => entry.reject(new RpcTimeoutError(this.url, timeout)), timeout);
+      }
+
+      this.queue.push(entry);
+      if (this.queue.length >= batching.maxSize) {
+        this.flush();
+      } else if (this.flushTimer === undefined) {
+        this.flushTimer = setTimeout(() => this.flush(), batching.wait);
+      }
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  /**
+   * Send every queued call, split into batches of at most maxSize
+   */
+  private flush(): void {
+    const batching = this.batching as Required<BatchingOptions>;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const queued = this.queue;
+    this.queue = [];
+
+    for (let i = 0; i < queued.length; i += batching.maxSize) {
+      void this.sendQueued(queued.slice(i, i + batching.maxSize));
     }
+  }
 
-    const result: JsonRpcResponse<T> = (await response.json()) as JsonRpcResponse<T>;
+  /**
+   * Send queued calls as one batch
+   * Any unexpected failure rejects every call that has not settled yet, since
+   * nobody awaits this promise
+   */
+  private async sendQueued(calls: QueuedCall[]): Promise<void> {
+    try {
+      await this.sendQueuedBatch(calls);
+    } catch (error) {
+      for (const call of calls) call.reject(toRpcError(error, this.url));
+    }
+  }
+
+  private async sendQueuedBatch(calls: QueuedCall[]): Promise<void> {
+    if (calls.length === 1 || this.batchUnsupported) {
+      await this.sendIndividually(calls);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await this.withRetry(() =>
+        this.post<unknown>(
+          calls.map((call) => call.request),
+          {},
+        ),
+      );
+    } catch (error) {
+      // Timeouts, rate limits and provider outages would only get worse if
+      // every item were sent again on its own
+      for (const call of calls) call.reject(error);
+      return;
+    }
+
+    const responses = Array.isArray(body)
+      ? body.filter(
+          (response): response is JsonRpcResponse =>
+            typeof response === "object" && response !== null && "id" in response,
+        )
+      : [];
+    const responsesById = new Map<number | string, JsonRpcResponse>();
+    for (const response of responses) {
+      responsesById.set(response.id, response);
+    }
+
+    // A single object, or an error answering none of the items, means the
+    // provider does not accept batch payloads
+    const matched = calls.some((call) => responsesById.has(call.request.id));
+    if (!Array.isArray(body) || (!matched && responses.some((response) => response.error))) {
+      this.batchUnsupported = true;
+      await this.sendIndividually(calls);
+      return;
+    }
 
-    if (result.error) {
-      throw new Error(`RPC error: ${result.error.message}`);
+    for (const call of calls) {
+      const response = responsesById.get(call.request.id);
+      if (!response) {
+        call.reject(new InvalidResponseError("Missing response for batch item", this.url));
+        continue;
+      }
+      try {
+        call.resolve(this.unwrap(response));
+      } catch (error) {
+        call.reject(error);
+      }
     }
+  }
+
+  /**
+   * Send queued calls as single requests
+   */
+  private async sendIndividually(calls: QueuedCall[]): Promise<void> {
+    await Promise.all(
+      calls.map(async (call) => {
+        try {
+          call.resolve(await this.send(call.request, {}));
+        } catch (error) {
+          call.reject(error);
+        }
+      }),
+    );
+  }
 
-    return result.result as T;
+  /**
+   * Send a single request and unwrap its result, retrying transient failures
+   */
+  private send<T>(request: JsonRpcRequest, options: RequestOptions): Promise<T> {
+    return this.withRetry(
+      async () => this.unwrap(await this.post<JsonRpcResponse<T>>(request, options)),
+      options.signal,
+    );
+  }
+
+  /**
+   * Apply the retry policy, if any; each attempt gets its own timeout
+   */
+  private withRetry<R>(request: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    return this.retry ? withRetry(request, this.retry, signal) : request();
+  }
+
+  private unwrap<T>(response: JsonRpcResponse<T>): T {
+    if (response.error) {
+      throw createJsonRpcError(response.error, this.url);
+    }
+    return response.result as T;
+  }
+
+  /**
+   * POST a JSON-RPC payload and parse the JSON body
+   * The timeout covers both the request and reading the response body,
+   * and the caller's signal aborts the in-flight fetch
+   */
+  private async post<R>(payload: unknown, options: RequestOptions): Promise<R> {
+    const timeout = options.timeout ?? this.timeout;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      throw signal.reason ?? new Error("Request aborted");
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort);
+
+    let timedOut = false;
+    const timer =
+      timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+
+      if (!response.ok) {
+        throw new HttpError(
+          response.status,
+          text,
+          this.url,
+          parseRetryAfter(response.headers.get("retry-after")),
+        );
+      }
+
+      try {
+        return JSON.parse(text) as R;
+      } catch {
+        throw new InvalidResponseError(`Invalid JSON response: ${text.slice(0, 200)}`, this.url);
+      }
+    } catch (error) {
+      if (timedOut && timeout !== undefined) {
+        throw new RpcTimeoutError(this.url, timeout);
+      }
+      // Errors we raised ourselves and caller aborts pass through unchanged
+      if (error instanceof RpcError || signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(`Network error: ${message}`, this.url, error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
   }
 
   getUrl(): string {
     return this.url;
   }
 
+  /**
+   * Send any calls still waiting in the micro-batching queue
+   * HTTP holds no connection, so the client stays usable afterwards
+   */
+  close(): void {
+    if (this.queue.length > 0) {
+      this.flush();
+    }
+  }
+
   getRequestId(): number {
     return this.requestId;
   }
@@ -1,3 +1,6 @@
+import type { RetryOptions } from "./RetryPolicy.js";
+import type { RpcError } from "./RpcErrors.js";
+
 export interface JsonRpcRequest {
   jsonrpc: "2.0";
   id: number | string;
@@ -18,3 +21,55 @@ export interface JsonRpcResponse<T = any> {
     data?: any;
   };
 }
+
+/**
+ * Options accepted by a single RPC request
+ */
+export interface RequestOptions {
+  /** Signal used by the caller to cancel the request */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds, overrides the client default */
+  timeout?: number;
+}
+
+/**
+ * Options applied to every request made by an RpcClient
+ */
+export interface RpcClientOptions {
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+  /** Transparently coalesce concurrent calls into JSON-RPC batches */
+  batch?: boolean | BatchingOptions;
+  /** Retry transient failures (rate limits, timeouts, gateway errors) on this provider */
+  retry?: boolean | RetryOptions;
+}
+
+/**
+ * Controls automatic micro-batching of concurrent calls
+ */
+export interface BatchingOptions {
+  /** Milliseconds to wait for more calls before sending (default 0, i.e. the same tick) */
+  wait?: number;
+  /** Maximum calls per batch; larger queues are split into several batches (default 100) */
+  maxSize?: number;
+}
+
+/**
+ * A single call inside a JSON-RPC batch
+ */
+export interface BatchRequest {
+  method: string;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  params?: any[];
+}
+
+/**
+ * Outcome of a single call inside a JSON-RPC batch
+ * Items fail independently, so a batch may mix successes and errors
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export interface BatchItemResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: RpcError;
+}
@@ -0,0 +1,161 @@
+/**
+ * JSON-RPC error codes with a dedicated meaning
+ */
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  LIMIT_EXCEEDED: -32005,
+  EXECUTION_REVERTED: 3,
+} as const;
+
+/**
+ * Base class for every error raised while talking to a provider
+ */
+export class RpcError extends Error {
+  /** Provider URL, when known */
+  readonly url?: string;
+
+  constructor(message: string, url?: string) {
+    super(message);
+    this.name = "RpcError";
+    this.url = url;
+    // Restore the prototype chain, which is lost when extending Error in ES5 output
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The provider answered with a non-2xx HTTP status
+ */
+export class HttpError extends RpcError {
+  readonly status: number;
+  readonly body: string;
+  /** Delay in milliseconds requested by the provider's Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(status: number, body: string, url?: string, retryAfter?: number) {
+    super(`HTTP error! status: ${status}`, url);
+    this.name = "HttpError";
+    this.status = status;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The provider answered with a JSON-RPC error object
+ */
+export class JsonRpcError extends RpcError {
+  readonly code: number;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  readonly data?: any;
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  constructor(code: number, message: string, data?: any, url?: string) {
+    super(`RPC error: ${message}`, url);
+    this.name = "JsonRpcError";
+    this.code = code;
+    this.data = data;
+  }
+
+  /**
+   * True when the provider does not support the method
+   */
+  get isMethodNotFound(): boolean {
+    return this.code === JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND;
+  }
+}
+
+/**
+ * A call or gas estimation reverted; revertData holds the ABI-encoded reason
+ */
+export class ExecutionRevertedError extends JsonRpcError {
+  readonly revertData?: string;
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  constructor(code: number, message: string, data?: any, url?: string) {
+    super(code, message, data, url);
+    this.name = "ExecutionRevertedError";
+    this.revertData = extractRevertData(data);
+  }
+}
+
+/**
+ * Thrown when an RPC request does not complete within its timeout
+ */
+export class RpcTimeoutError extends RpcError {
+  readonly timeout: number;
+
+  constructor(url: string, timeout: number) {
+    super(`Request to ${url} timed out after ${timeout}ms`, url);
+    this.name = "RpcTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The provider could not be reached (DNS, connection refused, socket closed)
+ */
+export class NetworkError extends RpcError {
+  readonly cause?: unknown;
+
+  constructor(message: string, url?: string, cause?: unknown) {
+    super(message, url);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+/**
+ * The provider answered with something that is not a valid JSON-RPC response
+ */
+export class InvalidResponseError extends RpcError {
+  constructor(message: string, url?: string) {
+    super(message, url);
+    this.name = "InvalidResponseError";
+  }
+}
+
+/**
+ * Build the error for a JSON-RPC error object
+ * Reverts are recognised by code 3 or an "execution reverted" message
+ */
+export function createJsonRpcError(
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  error: { code: number; message: string; data?: any },
+  url?: string,
+): JsonRpcError {
+  const isRevert =
+    error.code === JSON_RPC_ERROR_CODES.EXECUTION_REVERTED ||
+    /execution reverted/i.test(error.message ?? "");
+
+  return isRevert
+    ? new ExecutionRevertedError(error.code, error.message, error.data, url)
+    : new JsonRpcError(error.code, error.message, error.data, url);
+}
+
+/**
+ * Normalise anything thrown by a transport into an RpcError
+ */
+export function toRpcError(error: unknown, url?: string): RpcError {
+  if (error instanceof RpcError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new NetworkError(message, url, error);
+}
+
+// Providers put revert data either directly in `data` or nested as `data.data`
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+function extractRevertData(data: any): string | undefined {
+  if (typeof data === "string" && data.startsWith("0x")) {
+    return data;
+  }
+  if (data && typeof data.data === "string" && data.data.startsWith("0x")) {
+    return data.data;
+  }
+  return undefined;
+}
@@ -0,0 +1,32 @@
+/**
+ * Persistent key-value store behind the response cache
+ * Only responses that can no longer change are written, so a storage never
+ * needs to invalidate anything; keys already include the chain, method and
+ * canonical params, and values are serialized results
+ */
+export interface CacheStorage {
+  /**
+   * Stored value of a key, or undefined when missing
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Store a value, replacing any previous one
+   */
+  set(key: string, value: string): Promise<void>;
+
+  /**
+   * Remove a key if present
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove every key, or only the keys starting with a prefix
+   */
+  clear(prefix?: string): Promise<void>;
+
+  /**
+   * Finish pending writes and release any open resource
+   */
+  close?(): Promise<void>;
+}
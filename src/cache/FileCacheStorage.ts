@@ -0,0 +1,302 @@
+import type { CacheStorage } from "./CacheStorage.js";
+
+export interface FileCacheStorageOptions {
+  /** Maximum bytes of live records; the least recently used are dropped first (default 256 MiB) */
+  maxSize?: number;
+  /** Bytes after which writes move on to a new segment file (default 16 MiB) */
+  segmentSize?: number;
+  /** Share of stale bytes in the segment files that triggers a compaction (default 0.5) */
+  compactionThreshold?: number;
+}
+
+export interface FileCacheStorageStats {
+  /** Live keys */
+  entries: number;
+  /** Bytes of live records */
+  size: number;
+  /** Bytes of every segment file, including replaced and removed records */
+  fileSize: number;
+  segments: number;
+}
+
+/**
+ * Where the latest record of a key sits
+ */
+interface RecordLocation {
+  segment: number;
+  offset: number;
+  /** Bytes of the record line, without the newline */
+  length: number;
+}
+
+type FileSystem = typeof import("node:fs/promises");
+
+const DEFAULT_OPTIONS = {
+  maxSize: 256 * 1024 * 1024,
+  segmentSize: 16 * 1024 * 1024,
+  compactionThreshold: 0.5,
+};
+
+const SEGMENT_PATTERN = /^(\d{6})\.log$/;
+const NEWLINE = 10;
+
+/**
+ * Cache storage in append-only segment files under a directory
+ * Every write appends a JSON line, `[key, value]` or `[key]` for a removal, to
+ * the active segment. The segments are replayed in order the first time the
+ * storage is used to find where each live value sits; values themselves stay
+ * on disk. Once stale records make up more than compactionThreshold of the
+ * files, the live records are rewritten to new segments and the old files
+ * deleted.
+ * Node.js only; the directory must not be used by two processes at once
+ */
+export class FileCacheStorage implements CacheStorage {
+  private directory: string;
+  private maxSize: number;
+  private segmentSize: number;
+  private compactionThreshold: number;
+  /** Live records in least recently used order */
+  private index = new Map<string, RecordLocation>();
+  private segments: number[] = [];
+  private active = { segment: 1, size: 0 };
+  private liveBytes = 0;
+  private fileBytes = 0;
+  private opening?: Promise<FileSystem>;
+  /** Operations run one at a time so reads never race a compaction */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string, options: FileCacheStorageOptions = {}) {
+    this.directory = directory;
+    this.maxSize = options.maxSize ?? DEFAULT_OPTIONS.maxSize;
+    this.segmentSize = options.segmentSize ?? DEFAULT_OPTIONS.segmentSize;
+    this.compactionThreshold = options.compactionThreshold ?? DEFAULT_OPTIONS.compactionThreshold;
+  }
+
+  get(key: string): Promise<string | undefined> {
+    return this.enqueue(async (fs) => {
+      const location = this.index.get(key);
+      if (!location) {
+        return undefined;
+      }
+      const record = await this.readRecord(fs, location);
+      this.index.delete(key);
+      this.index.set(key, location);
+      return record[1];
+    });
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.enqueue(async (fs) => {
+      await this.append(fs, key, value);
+      while (this.liveBytes > this.maxSize && this.index.size > 0) {
+        await this.append(fs, this.index.keys().next().value as string);
+      }
+      if (this.shouldCompact()) {
+        await this.rewrite(fs);
+      }
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.enqueue(async (fs) => {
+      if (this.index.has(key)) {
+        await this.append(fs, key);
+      }
+    });
+  }
+
+  clear(prefix?: string): Promise<void> {
+    return this.enqueue(async (fs) => {
+      if (prefix !== undefined) {
+        const keys = Array.from(this.index.keys()).filter((key) => key.indexOf(prefix) === 0);
+        for (const key of keys) {
+          await this.append(fs, key);
+        }
+        if (this.shouldCompact()) {
+          await this.rewrite(fs);
+        }
+        return;
+      }
+      await this.removeSegments(fs, this.segments);
+      this.index.clear();
+      this.segments = [];
+      this.active = { segment: 1, size: 0 };
+      this.liveBytes = 0;
+      this.fileBytes = 0;
+    });
+  }
+
+  /**
+   * Rewrite the live records to new segments, dropping every stale one
+   * Runs on its own once stale records pass compactionThreshold
+   */
+  compact(): Promise<void> {
+    return this.enqueue((fs) => this.rewrite(fs));
+  }
+
+  /**
+   * Wait for the pending operations to finish
+   */
+  close(): Promise<void> {
+    return this.enqueue(async () => undefined);
+  }
+
+  getStats(): Promise<FileCacheStorageStats> {
+    return this.enqueue(async () => ({
+      entries: this.index.size,
+      size: this.liveBytes,
+      fileSize: this.fileBytes,
+      segments: this.segments.length,
+    }));
+  }
+
+  private enqueue<T>(operation: (fs: FileSystem) => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.open()).then(operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private open(): Promise<FileSystem> {
+    if (!this.opening) {
+      this.opening = this.load().catch((error) => {
+        this.opening = undefined;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  /**
+   * Rebuild the index by replaying every segment in order
+   */
+  private async load(): Promise<FileSystem> {
+    const fs = await import("node:fs/promises");
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const segments = (await fs.readdir(this.directory))
+      .map((name) => SEGMENT_PATTERN.exec(name)?.[1])
+      .filter((segment): segment is string => segment !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    for (const segment of segments) {
+      const data = await fs.readFile(this.segmentPath(segment));
+      this.fileBytes += data.length;
+      let offset = 0;
+      while (offset < data.length) {
+        const newline = data.indexOf(NEWLINE, offset);
+        const end = newline === -1 ? data.length : newline;
+        this.replay(data.subarray(offset, end).toString("utf8"), {
+          segment,
+          offset,
+          length: end - offset,
+        });
+        offset = end + 1;
+      }
+    }
+
+    this.segments = segments;
+    // A crash may have left a partial last line, so writes always go to a new segment
+    this.active = { segment: (segments[segments.length - 1] ?? 0) + 1, size: 0 };
+    return fs;
+  }
+
+  private replay(line: string, location: RecordLocation): void {
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // Torn write from a crash
+      return;
+    }
+    if (!Array.isArray(record) || typeof record[0] !== "string") {
+      return;
+    }
+    this.forget(record[0]);
+    if (typeof record[1] === "string") {
+      this.index.set(record[0], location);
+      this.liveBytes += location.length + 1;
+    }
+  }
+
+  /**
+   * Append a record for a key: its new value, or a removal when no value is given
+   */
+  private async append(fs: FileSystem, key: string, value?: string): Promise<void> {
+    const line = Buffer.from(`${JSON.stringify(value === undefined ? [key] : [key, value])}\n`);
+    if (this.active.size > 0 && this.active.size + line.length > this.segmentSize) {
+      this.active = { segment: this.active.segment + 1, size: 0 };
+    }
+
+    const { segment, size: offset } = this.active;
+    await fs.appendFile(this.segmentPath(segment), line);
+    if (this.segments.indexOf(segment) === -1) {
+      this.segments.push(segment);
+    }
+    this.active.size += line.length;
+    this.fileBytes += line.length;
+
+    this.forget(key);
+    if (value !== undefined) {
+      this.index.set(key, { segment, offset, length: line.length - 1 });
+      this.liveBytes += line.length;
+    }
+  }
+
+  private forget(key: string): void {
+    const location = this.index.get(key);
+    if (location) {
+      this.index.delete(key);
+      this.liveBytes -= location.length + 1;
+    }
+  }
+
+  private shouldCompact(): boolean {
+    const stale = this.fileBytes - this.liveBytes;
+    return this.fileBytes > this.segmentSize && stale > this.fileBytes * this.compactionThreshold;
+  }
+
+  private async rewrite(fs: FileSystem): Promise<void> {
+    const previous = this.segments;
+    const live = Array.from(this.index.entries());
+
+    this.index.clear();
+    this.segments = [];
+    this.active = { segment: this.active.segment + 1, size: 0 };
+    this.liveBytes = 0;
+    this.fileBytes = 0;
+
+    // New segments sort after the old ones, so a crash before the old files
+    // are deleted still replays to the same records
+    for (const [key, location] of live) {
+      const record = await this.readRecord(fs, location);
+      await this.append(fs, key, record[1]);
+    }
+    await this.removeSegments(fs, previous);
+  }
+
+  private async readRecord(fs: FileSystem, location: RecordLocation): Promise<[string, string]> {
+    const handle = await fs.open(this.segmentPath(location.segment), "r");
+    try {
+      const buffer = Buffer.alloc(location.length);
+      const { bytesRead } = await handle.read(buffer, 0, location.length, location.offset);
+      // The segment was cut short after indexing, e.g. by another process
+      if (bytesRead < location.length) {
+        throw new Error(`Truncated cache record in ${this.segmentPath(location.segment)}`);
+      }
+      return JSON.parse(buffer.toString("utf8"));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async removeSegments(fs: FileSystem, segments: number[]): Promise<void> {
+    for (const segment of segments) {
+      await fs.rm(this.segmentPath(segment), { force: true });
+    }
+  }
+
+  private segmentPath(segment: number): string {
+    return `${this.directory.replace(/[\\/]+$/, "")}/${String(segment).padStart(6, "0")}.log`;
+  }
+}
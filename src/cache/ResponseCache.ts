@@ -0,0 +1,448 @@
+import type { StrategyResult } from "../strategies/strategiesTypes.js";
+import { canonicalStringify } from "../strategies/responseComparison.js";
+import {
+  BLOCK_METHODS,
+  type BlockRef,
+  IMMUTABLE_METHODS,
+  getImmutability,
+} from "./immutability.js";
+import { parseBlockNumber } from "../utils/blockNumbers.js";
+import type { CacheStorage } from "./CacheStorage.js";
+
+export interface ResponseCacheOptions {
+  /** Maximum cached responses; the least recently used are evicted first (default 1000) */
+  maxEntries?: number;
+  /** Milliseconds a response stays cached (default: until evicted) */
+  ttl?: number;
+  /** Milliseconds the finalized block number is reused before asking again (default 12000) */
+  finalityTtl?: number;
+  /** Persistent storage for final responses, e.g. a FileCacheStorage, reused after restarts */
+  storage?: CacheStorage;
+  /** Chain of the responses, prefixing the storage keys so chains can share a storage */
+  chainId?: number | string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Hits served from the persistent storage */
+  storageHits: number;
+  /** Responses currently cached */
+  entries: number;
+  /** Responses dropped to stay under maxEntries */
+  evictions: number;
+  /** Cached responses not yet final, dropped if their block is reorged out */
+  unfinalized: number;
+  /** Reorgs detected from block hashes */
+  reorgs: number;
+  /** Responses dropped because their block was reorged out */
+  invalidations: number;
+}
+
+interface CacheEntry {
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  result: StrategyResult<any>;
+  expiresAt?: number;
+  /** Block of a response that is not final yet */
+  block?: BlockRef;
+}
+
+const DEFAULT_OPTIONS = {
+  maxEntries: 1000,
+  finalityTtl: 12000,
+};
+
+// Unfinalized heights whose hash is remembered, for chains without a finality signal
+const MAX_TRACKED_BLOCKS = 1024;
+
+/**
+ * Serialized form of an entry in the persistent storage
+ */
+interface StoredEntry {
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  result: StrategyResult<any>;
+  expiresAt?: number;
+}
+
+/**
+ * In-memory cache of immutable responses with LRU and TTL bounds
+ * Only responses that can never change are stored: content-addressed
+ * lookups, mined transactions and blocks at or below the finalized block
+ *
+ * Responses about a block above the finalized one are kept as well when the
+ * block hash is known. The hash seen at each unfinalized height is tracked,
+ * and a block whose hash or parent hash disagrees with it means a reorg: the
+ * responses of the replaced blocks are dropped. Once the chain finalizes a
+ * block, the responses up to it become permanent.
+ *
+ * With a storage, permanent responses are also written there, and load()
+ * falls back to it on a memory miss. Unfinalized responses are never
+ * persisted, so a reorg while the process is down cannot leave stale data.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private ttl?: number;
+  private finalityTtl: number;
+  private finalized?: { number: number | undefined; fetchedAt: number };
+  /** Hash of the block seen at each unfinalized height */
+  private canonical = new Map<number, string>();
+  private storage?: CacheStorage;
+  private chainId?: number | string;
+  private stats = newStats();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_OPTIONS.maxEntries);
+    this.ttl = options.ttl;
+    this.finalityTtl = options.finalityTtl ?? DEFAULT_OPTIONS.finalityTtl;
+    this.storage = options.storage;
+    this.chainId = options.chainId;
+  }
+
+  /**
+   * Cached result of a call, marking it as recently used
+   * Methods that are never cached are not counted as misses
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  get<T>(method: string, params: any[], now = Date.now()): StrategyResult<T> | undefined {
+    if (!IMMUTABLE_METHODS[method]) {
+      return undefined;
+    }
+    const entry = this.lookup(cacheKey(method, params), now);
+    if (!entry) {
+      this.stats.misses++;
+      return undefined;
+    }
+    this.stats.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Cached result of a call from memory or, failing that, the persistent storage
+   * Storage errors count as misses
+   */
+  async load<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    now = Date.now(),
+  ): Promise<StrategyResult<T> | undefined> {
+    if (!this.storage) {
+      return this.get<T>(method, params, now);
+    }
+    if (!IMMUTABLE_METHODS[method]) {
+      return undefined;
+    }
+
+    const key = cacheKey(method, params);
+    const entry = this.lookup(key, now) ?? (await this.loadStored(key, now));
+    if (!entry) {
+      this.stats.misses++;
+      return undefined;
+    }
+    this.stats.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Cache a successful result if the response can no longer change
+   * @param getFinalizedBlock - Resolves the chain's finalized block number,
+   * needed only for responses about a block given by number
+   */
+  async store<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    result: StrategyResult<T>,
+    getFinalizedBlock: () => Promise<number | undefined>,
+  ): Promise<void> {
+    // Providers that disagree may be on different forks
+    if (!result.success || result.metadata?.hasInconsistencies) {
+      return;
+    }
+
+    const value = resultValue(result);
+    this.observe(method, value);
+
+    const immutability = getImmutability(method, params, value);
+    if (immutability === false) {
+      return;
+    }
+    let block: BlockRef | undefined;
+    if (immutability !== true) {
+      const finalized = await this.getFinalizedBlock(getFinalizedBlock);
+      if (finalized === undefined || immutability.number > finalized) {
+        // Without a hash a reorg of this block could not be noticed
+        if (immutability.hash === undefined) {
+          return;
+        }
+        this.observeBlock(immutability.number, immutability.hash);
+        block = immutability;
+      }
+    }
+
+    const key = cacheKey(method, params);
+    const entry = this.set(key, result, block);
+    if (!block) {
+      await this.persist(key, entry);
+    }
+  }
+
+  /**
+   * Check a block or header response for reorgs
+   * Results of every call should be passed in, including "latest" lookups
+   * that are never cached, since those reveal new heads
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  observe(method: string, value: any): void {
+    if (BLOCK_METHODS.has(method)) {
+      this.observeHeader(value);
+    }
+  }
+
+  /**
+   * Check a block header, such as a newHeads notification, for reorgs
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  observeHeader(header: any): void {
+    if (!header || typeof header.hash !== "string") {
+      return;
+    }
+    const number = parseBlockNumber(header.number);
+    if (number !== false) {
+      this.observeBlock(
+        number,
+        header.hash,
+        typeof header.parentHash === "string" ? header.parentHash : undefined,
+      );
+    }
+  }
+
+  /**
+   * Record the block seen at a height, dropping the responses of any blocks it replaces
+   * A hash differing from the one tracked at the same height, or a parent hash
+   * differing from the one tracked below, means the chain reorganized. When
+   * the new block builds on a tracked parent only its height and above are
+   * dropped; otherwise the depth is unknown and every unfinalized response goes.
+   */
+  observeBlock(number: number, hash: string, parentHash?: string): void {
+    const finalized = this.finalized?.number;
+    if (finalized !== undefined && number <= finalized) {
+      return;
+    }
+
+    const known = this.canonical.get(number);
+    const knownParent = this.canonical.get(number - 1);
+    const parentMatches = parentHash !== undefined && knownParent === parentHash;
+    if (known !== undefined && known !== hash) {
+      this.invalidateFrom(parentMatches ? number : 0);
+    } else if (parentHash !== undefined && knownParent !== undefined && !parentMatches) {
+      this.invalidateFrom(0);
+    }
+
+    this.track(number, hash);
+    if (parentHash !== undefined && (finalized === undefined || number - 1 > finalized)) {
+      this.track(number - 1, parentHash);
+    }
+  }
+
+  getStats(): CacheStats {
+    let unfinalized = 0;
+    this.entries.forEach((entry) => {
+      if (entry.block) unfinalized++;
+    });
+    return { ...this.stats, entries: this.entries.size, unfinalized };
+  }
+
+  /**
+   * Drop every cached response, including the persisted ones, and reset the statistics
+   * With a chainId only that chain's persisted responses are removed; without
+   * one the whole storage is cleared
+   */
+  clear(): void {
+    this.entries.clear();
+    this.canonical.clear();
+    this.finalized = undefined;
+    this.stats = newStats();
+    this.storage
+      ?.clear(this.chainId !== undefined ? this.storageKey("") : undefined)
+      .catch(() => undefined);
+  }
+
+  /**
+   * Wait for pending storage writes and release the storage
+   */
+  async close(): Promise<void> {
+    await this.storage?.close?.().catch(() => undefined);
+  }
+
+  private lookup(key: string, now: number): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= now)) {
+      if (entry) this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private set(
+    key: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    result: StrategyResult<any>,
+    block?: BlockRef,
+    expiresAt = this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+  ): CacheEntry {
+    const entry: CacheEntry = { result, expiresAt, block };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Map iteration follows insertion order, so the first key is the least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions++;
+    }
+    return entry;
+  }
+
+  private async loadStored(key: string, now: number): Promise<CacheEntry | undefined> {
+    try {
+      const value = await this.storage?.get(this.storageKey(key));
+      if (value === undefined) {
+        return undefined;
+      }
+      const stored: StoredEntry = JSON.parse(value);
+      if (stored.expiresAt !== undefined && stored.expiresAt <= now) {
+        return undefined;
+      }
+      this.stats.storageHits++;
+      return this.set(key, stored.result, undefined, stored.expiresAt);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a permanent response to the storage; failures only cost the cached copy
+   */
+  private async persist(key: string, entry: CacheEntry): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    const stored: StoredEntry = { result: entry.result, expiresAt: entry.expiresAt };
+    await this.storage.set(this.storageKey(key), JSON.stringify(stored)).catch(() => undefined);
+  }
+
+  private storageKey(key: string): string {
+    return this.chainId !== undefined ? `${this.chainId}:${key}` : key;
+  }
+
+  private async getFinalizedBlock(
+    resolve: () => Promise<number | undefined>,
+  ): Promise<number | undefined> {
+    const now = Date.now();
+    if (!this.finalized || now - this.finalized.fetchedAt >= this.finalityTtl) {
+      const number = await resolve();
+      // A lagging provider must not move finality backwards
+      const previous = this.finalized?.number;
+      this.finalized = {
+        number:
+          previous !== undefined && (number === undefined || number < previous) ? previous : number,
+        fetchedAt: now,
+      };
+      if (this.finalized.number !== undefined) {
+        await this.finalize(this.finalized.number);
+      }
+    }
+    return this.finalized.number;
+  }
+
+  /**
+   * Make the responses up to the finalized block permanent and stop tracking their heights
+   * A response is only promoted while its block hash is still the one tracked
+   * at its height; otherwise its block may have been reorged out unnoticed
+   * and the response is dropped
+   */
+  private async finalize(finalized: number): Promise<void> {
+    const promoted: Promise<void>[] = [];
+    let reorged = false;
+    this.entries.forEach((entry, key) => {
+      if (!entry.block || entry.block.number > finalized) {
+        return;
+      }
+      const canonical = this.canonical.get(entry.block.number);
+      if (canonical !== entry.block.hash) {
+        this.entries.delete(key);
+        if (canonical !== undefined) {
+          reorged = true;
+          this.stats.invalidations++;
+        }
+        return;
+      }
+      entry.block = undefined;
+      promoted.push(this.persist(key, entry));
+    });
+    if (reorged) {
+      this.stats.reorgs++;
+    }
+    this.canonical.forEach((_, number) => {
+      if (number <= finalized) this.canonical.delete(number);
+    });
+    await Promise.all(promoted);
+  }
+
+  /**
+   * Drop the responses of blocks at or above a height after a reorg
+   */
+  private invalidateFrom(height: number): void {
+    this.stats.reorgs++;
+    this.entries.forEach((entry, key) => {
+      if (entry.block && entry.block.number >= height) {
+        this.entries.delete(key);
+        this.stats.invalidations++;
+      }
+    });
+    this.canonical.forEach((_, number) => {
+      if (number >= height) this.canonical.delete(number);
+    });
+  }
+
+  private track(number: number, hash: string): void {
+    this.canonical.set(number, hash);
+    if (this.canonical.size > MAX_TRACKED_BLOCKS) {
+      let lowest = number;
+      this.canonical.forEach((_, tracked) => {
+        if (tracked < lowest) lowest = tracked;
+      });
+      this.canonical.delete(lowest);
+    }
+  }
+}
+
+function newStats() {
+  return { hits: 0, misses: 0, storageHits: 0, evictions: 0, reorgs: 0, invalidations: 0 };
+}
+
+/**
+ * Cache key of a call: the method and its canonical params
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export function cacheKey(method: string, params: any[]): string {
+  return `${method}:${canonicalStringify(params)}`;
+}
+
+/**
+ * The response value of a result
+ * Strategies that return every provider response as data flag it with
+ * metadata.allResponses, and the first successful response is used
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export function resultValue(result: StrategyResult<any>): any {
+  if (result.metadata?.allResponses) {
+    return result.metadata.responses.find((response) => response.status === "success")?.data;
+  }
+  return result.data;
+}
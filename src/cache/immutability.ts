@@ -0,0 +1,89 @@
+import { parseBlockNumber } from "../utils/blockNumbers.js";
+
+/**
+ * Block a response belongs to
+ * The hash lets the cache keep the response before finality and drop it on a reorg
+ */
+export interface BlockRef {
+  number: number;
+  hash?: string;
+}
+
+/**
+ * Decides whether a response can never change
+ * - true: immutable as soon as it is returned
+ * - a block: immutable once that block is final
+ * - false: must not be cached
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export type ImmutabilityRule = (params: any[], value: any) => boolean | BlockRef;
+
+// Block tags whose block moves with the chain
+const MOVING_TAGS = new Set(["latest", "pending", "safe", "finalized"]);
+
+// A transaction or receipt belongs to its block once mined; pending ones still change
+const minedIn = (
+  _params: unknown[],
+  value: { blockNumber?: string | null; blockHash?: string | null } | null,
+): false | BlockRef => {
+  const number = parseBlockNumber(value?.blockNumber);
+  return number !== false && typeof value?.blockHash === "string"
+    ? { number, hash: value.blockHash }
+    : false;
+};
+
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+const blockByNumber = (params: any[], value: any): false | BlockRef => {
+  const number = parseBlockNumber(params[0]);
+  if (value === null || value === undefined || number === false) {
+    return false;
+  }
+  return { number, hash: typeof value.hash === "string" ? value.hash : undefined };
+};
+
+/**
+ * Methods whose responses are cached, with the condition that makes them immutable
+ */
+export const IMMUTABLE_METHODS: Record<string, ImmutabilityRule> = {
+  eth_chainId: () => true,
+  // Content addressed: a hash always names the same block
+  eth_getBlockByHash: (_params, value) => value !== null && value !== undefined,
+  eth_getTransactionByHash: minedIn,
+  eth_getTransactionReceipt: minedIn,
+  eth_getBlockByNumber: blockByNumber,
+  // Aztec blocks carry no hash field, so they are cached once final
+  node_getBlock: (params, value) => {
+    const block = blockByNumber(params, value);
+    return block && { number: block.number };
+  },
+};
+
+/**
+ * Methods returning the canonical block or header at a number or tag, whose
+ * hash and parent hash reveal reorgs
+ * Lookups by hash are left out: they also return uncles and orphaned blocks
+ */
+export const BLOCK_METHODS = new Set([
+  "eth_getBlockByNumber",
+  "eth_getHeaderByNumber",
+  "eth_getFinalizedBlock",
+  "eth_getFinalizedHeader",
+]);
+
+/**
+ * Apply the method's immutability rule to a response
+ * Calls with a moving block tag ("latest", "pending", ...) are never cached
+ */
+export function getImmutability(
+  method: string,
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  params: any[],
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  value: any,
+): boolean | BlockRef {
+  const rule = IMMUTABLE_METHODS[method];
+  if (!rule || params.some((param) => typeof param === "string" && MOVING_TAGS.has(param))) {
+    return false;
+  }
+  return rule(params, value);
+}
@@ -3,62 +3,118 @@ import type { NetworkClient } from "../NetworkClient.js";
 import { EthereumClient } from "../networks/1/EthereumClient.js";
 import { OptimismClient } from "../networks/10/OptimismClient.js";
 import { BNBClient } from "../networks/56/BNBClient.js";
+import { BNBTestnetClient } from "../networks/97/BNBTestnetClient.js";
 import { PolygonClient } from "../networks/137/PolygonClient.js";
 import { BaseClient } from "../networks/8453/BaseClient.js";
 import { ArbitrumClient } from "../networks/42161/ArbitrumClient.js";
 import { AztecClient } from "../networks/677868/AztecClient.js";
 import { SepoliaClient } from "../networks/11155111/SepoliaClient.js";
 
+/**
+ * Client type of each chain ID the factory knows
+ * Chains added with ClientFactory.register() are typed by merging into it:
+ *
+ *   declare module "explorer-network-connectors" {
+ *     interface ChainClients { 100: GnosisClient }
+ *   }
+ */
+export interface ChainClients {
+  1: EthereumClient;
+  10: OptimismClient;
+  56: BNBClient;
+  97: BNBTestnetClient;
+  137: PolygonClient;
+  8453: BaseClient;
+  42161: ArbitrumClient;
+  677868: AztecClient;
+  31337: EthereumClient;
+  11155111: SepoliaClient;
+}
+
 /**
  * Supported chain IDs for the client factory
  */
-export type SupportedChainId = 1 | 10 | 56 | 97 | 137 | 8453 | 42161 | 677868 | 31337 | 11155111;
+export type SupportedChainId = keyof ChainClients;
 
 /**
  * Constructor type for network clients
+ * The chain ID lets one client class serve several chains
  */
-export type ClientConstructor = new (config: StrategyConfig) => NetworkClient;
+export type ClientConstructor<C extends NetworkClient = NetworkClient> = new (
+  config: StrategyConfig,
+  chainId?: number,
+) => C;
 
 /**
  * Map chain IDs to their specific client types
  */
-export type ChainIdToClient<T extends SupportedChainId> = T extends 1 | 31337 | 11155111
-  ? EthereumClient
-  : T extends 10
-    ? OptimismClient
-    : T extends 56 | 97
-      ? BNBClient
-      : T extends 137
-        ? PolygonClient
-        : T extends 8453
-          ? BaseClient
-          : T extends 42161
-            ? ArbitrumClient
-            : T extends 677868
-              ? AztecClient
-              : NetworkClient;
+export type ChainIdToClient<T extends SupportedChainId> = ChainClients[T];
+
+/**
+ * Descriptive information about a registered chain
+ */
+export interface ChainMetadata {
+  /** Network name, e.g. "BNB Smart Chain Testnet" */
+  name: string;
+  /** Symbol of the native currency, e.g. "tBNB" */
+  currency?: string;
+  testnet?: boolean;
+}
+
+interface ChainRegistration {
+  client: ClientConstructor;
+  metadata: ChainMetadata;
+}
 
 /**
- * Registry mapping chain IDs to their corresponding client constructors
+ * Registry mapping chain IDs to their client constructors and metadata
  */
-const CHAIN_REGISTRY: Record<SupportedChainId, ClientConstructor> = {
-  1: EthereumClient,
-  10: OptimismClient,
-  56: BNBClient,
-  97: BNBClient,
-  137: PolygonClient,
-  8453: BaseClient,
-  42161: ArbitrumClient,
-  677868: AztecClient,
-  31337: EthereumClient, // Hardhat local network mapped to EthereumClient
-  11155111: SepoliaClient, // Sepolia testnet mapped to EthereumClient
-};
+const CHAIN_REGISTRY = new Map<number, ChainRegistration>([
+  [1, { client: EthereumClient, metadata: { name: "Ethereum", currency: "ETH" } }],
+  [10, { client: OptimismClient, metadata: { name: "OP Mainnet", currency: "ETH" } }],
+  [56, { client: BNBClient, metadata: { name: "BNB Smart Chain", currency: "BNB" } }],
+  [
+    97,
+    {
+      client: BNBTestnetClient,
+      metadata: { name: "BNB Smart Chain Testnet", currency: "tBNB", testnet: true },
+    },
+  ],
+  [137, { client: PolygonClient, metadata: { name: "Polygon", currency: "POL" } }],
+  [8453, { client: BaseClient, metadata: { name: "Base", currency: "ETH" } }],
+  [42161, { client: ArbitrumClient, metadata: { name: "Arbitrum One", currency: "ETH" } }],
+  [677868, { client: AztecClient, metadata: { name: "Aztec" } }],
+  // Hardhat local network mapped to EthereumClient
+  [
+    31337,
+    { client: EthereumClient, metadata: { name: "Hardhat", currency: "ETH", testnet: true } },
+  ],
+  [
+    11155111,
+    { client: SepoliaClient, metadata: { name: "Sepolia", currency: "ETH", testnet: true } },
+  ],
+]);
 
 /**
  * Factory for creating network clients based on chain ID
  * Provides a centralized registry for instantiating chain-specific clients
  */
 export class ClientFactory {
+  /**
+   * Register the client of a chain, or replace a built-in one
+   * The chain ID must be declared in ChainClients for createClient() to accept it
+   * @param chainId - The blockchain chain ID
+   * @param client - Client class created for the chain
+   * @param metadata - Descriptive information about the chain
+   */
+  static register<T extends SupportedChainId>(
+    chainId: T,
+    client: ClientConstructor<ChainClients[T]>,
+    metadata: ChainMetadata,
+  ): void {
+    CHAIN_REGISTRY.set(chainId, { client, metadata });
+  }
+
   /**
    * Create a network client for the specified chain ID
    *
@@ -68,13 +124,13 @@ export class ClientFactory {
    * @throws Error if the chain ID is not supported
    */
   static createClient(chainId: SupportedChainId, config: StrategyConfig): NetworkClient {
-    const ClientClass = CHAIN_REGISTRY[chainId];
+    const ClientClass = CHAIN_REGISTRY.get(chainId)?.client;
 
     if (!ClientClass) {
-      throw new Error(`Unsupported network ID: `);
+      throw new Error(`Unsupported network ID: ${chainId}`);
     }
 
-    return new ClientClass(config);
+    return new ClientClass(config, chainId);
   }
 
   /**
@@ -92,4 +148,25 @@ export class ClientFactory {
   ): ChainIdToClient<T> {
     return ClientFactory.createClient(chainId, config) as ChainIdToClient<T>;
   }
+
+  /**
+   * Metadata of a registered chain, or undefined when the chain is not supported
+   */
+  static getChainMetadata(chainId: number): ChainMetadata | undefined {
+    return CHAIN_REGISTRY.get(chainId)?.metadata;
+  }
+
+  /**
+   * Check whether a client is registered for a chain ID
+   */
+  static isSupported(chainId: number): chainId is SupportedChainId {
+    return CHAIN_REGISTRY.has(chainId);
+  }
+
+  /**
+   * Chain IDs with a registered client, in registration order
+   */
+  static getSupportedChainIds(): SupportedChainId[] {
+    return Array.from(CHAIN_REGISTRY.keys()) as SupportedChainId[];
+  }
 }
@@ -1,10 +1,11 @@
 // Base client
-export { NetworkClient } from "./NetworkClient.js";
+export { NetworkClient, NON_IDEMPOTENT_METHODS } from "./NetworkClient.js";
 
 // Ethereum (Chain ID: 1)
 export { EthereumClient } from "./networks/1/EthereumClient.js";
 export type {
   EthBlock,
+  EthBlockHeader,
   EthTransaction,
   EthTransactionReceipt,
   EthLog,
@@ -21,6 +22,7 @@ export type {
 export { OptimismClient } from "./networks/10/OptimismClient.js";
 export type {
   OptimismBlock,
+  OptimismBlockHeader,
   OptimismTransaction,
   OptimismTransactionReceipt,
   OptimismLog,
@@ -41,6 +43,7 @@ export type {
 export { BNBClient } from "./networks/56/BNBClient.js";
 export type {
   BNBBlock,
+  BNBBlockHeader,
   BNBTransaction,
   BNBTransactionReceipt,
   BNBLog,
@@ -63,6 +66,7 @@ export type {
 export { BNBTestnetClient } from "./networks/97/BNBTestnetClient.js";
 export type {
   BNBTestnetBlock,
+  BNBTestnetBlockHeader,
   BNBTestnetTransaction,
   BNBTestnetTransactionReceipt,
   BNBTestnetLog,
@@ -85,6 +89,7 @@ export type {
 export { PolygonClient } from "./networks/137/PolygonClient.js";
 export type {
   PolygonBlock,
+  PolygonBlockHeader,
   PolygonTransaction,
   PolygonTransactionReceipt,
   PolygonLog,
@@ -101,6 +106,7 @@ export type {
 export { BaseClient } from "./networks/8453/BaseClient.js";
 export type {
   BaseBlock,
+  BaseBlockHeader,
   BaseTransaction,
   BaseTransactionReceipt,
   BaseLog,
@@ -121,6 +127,7 @@ export type {
 export { ArbitrumClient } from "./networks/42161/ArbitrumClient.js";
 export type {
   ArbitrumBlock,
+  ArbitrumBlockHeader,
   ArbitrumTransaction,
   ArbitrumTransactionReceipt,
   ArbitrumLog,
@@ -155,6 +162,7 @@ export type {
 export { SepoliaClient } from "./networks/11155111/SepoliaClient.js";
 export type {
   SepoliaBlock,
+  SepoliaBlockHeader,
   SepoliaTransaction,
   SepoliaTransactionReceipt,
   SepoliaLog,
@@ -173,21 +181,141 @@ export type {
   SupportedChainId,
   ClientConstructor,
   ChainIdToClient,
+  ChainClients,
+  ChainMetadata,
 } from "./factory/ClientRegistry.js";
 
 // Strategy types and factory
 export { StrategyFactory } from "./strategies/requestStrategy.js";
-export type { StrategyConfig } from "./strategies/requestStrategy.js";
+export type {
+  StrategyConfig,
+  MethodRoute,
+  DedupeOptions,
+  StrategyTypes,
+  StrategyType,
+  StrategyBuilder,
+} from "./strategies/requestStrategy.js";
 export type {
   RequestStrategy,
   StrategyResult,
   RPCMetadata,
   RPCProviderResponse,
+  ConsensusReport,
+  ConsensusGroup,
+  ResponseDifference,
+  BroadcastReport,
+  BroadcastAcceptance,
 } from "./strategies/strategiesTypes.js";
+export {
+  canonicalize,
+  canonicalStringify,
+  hashResponse,
+  diffResponses,
+} from "./strategies/responseComparison.js";
+export {
+  ComparisonPolicyRegistry,
+  DEFAULT_COMPARISON_POLICIES,
+  compareResponses,
+} from "./strategies/comparisonPolicies.js";
+export type { ComparisonPolicy, ComparisonOutcome } from "./strategies/comparisonPolicies.js";
+export { BLOCK_TAG_METHODS, resolvePinnedBlock } from "./strategies/blockPinning.js";
+export type { BlockPinMode, PinnedBlock } from "./strategies/blockPinning.js";
 
 // Concrete strategies
 export { FallbackStrategy } from "./strategies/fallbackStrategy.js";
+export type { FallbackStrategyOptions } from "./strategies/fallbackStrategy.js";
 export { ParallelStrategy } from "./strategies/parallelStrategy.js";
+export type { ParallelStrategyOptions } from "./strategies/parallelStrategy.js";
+export { RaceStrategy } from "./strategies/raceStrategy.js";
+export type { RaceStrategyOptions } from "./strategies/raceStrategy.js";
+export { ConsensusStrategy } from "./strategies/consensusStrategy.js";
+export type { ConsensusStrategyOptions } from "./strategies/consensusStrategy.js";
+export { AdaptiveStrategy } from "./strategies/adaptiveStrategy.js";
+export type { AdaptiveStrategyOptions } from "./strategies/adaptiveStrategy.js";
+export { HedgedStrategy } from "./strategies/hedgedStrategy.js";
+export type { HedgedStrategyOptions } from "./strategies/hedgedStrategy.js";
+export { LoadBalancedStrategy } from "./strategies/loadBalancedStrategy.js";
+export type {
+  LoadBalancedStrategyOptions,
+  ProviderBudget,
+  ProviderUsage,
+} from "./strategies/loadBalancedStrategy.js";
+export {
+  BroadcastStrategy,
+  BROADCAST_METHODS,
+  isAlreadyKnownError,
+} from "./strategies/broadcastStrategy.js";
+
+// Provider health
+export { CircuitBreaker, isProviderFailure } from "./strategies/circuitBreaker.js";
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  ProviderHealth,
+} from "./strategies/circuitBreaker.js";
+export { ProviderStatsTracker } from "./strategies/providerStats.js";
+export type { ProviderScore, ProviderStatsOptions } from "./strategies/providerStats.js";
+
+// Response cache
+export { ResponseCache, cacheKey } from "./cache/ResponseCache.js";
+export type { ResponseCacheOptions, CacheStats } from "./cache/ResponseCache.js";
+export type { CacheStorage } from "./cache/CacheStorage.js";
+export { FileCacheStorage } from "./cache/FileCacheStorage.js";
+export type { FileCacheStorageOptions, FileCacheStorageStats } from "./cache/FileCacheStorage.js";
+export { IMMUTABLE_METHODS, BLOCK_METHODS, getImmutability } from "./cache/immutability.js";
+export type { ImmutabilityRule, BlockRef } from "./cache/immutability.js";
 
 // Legacy RPC client (for backwards compatibility)
 export { RpcClient } from "./RpcClient.js";
+export type {
+  RequestOptions,
+  RpcClientOptions,
+  BatchRequest,
+  BatchItemResult,
+  BatchingOptions,
+} from "./RpcClientTypes.js";
+
+// Transports
+export type { Transport } from "./transports/Transport.js";
+export { callBatch } from "./transports/Transport.js";
+export { TransportFactory } from "./transports/TransportFactory.js";
+export type { TransportFactoryOptions } from "./transports/TransportFactory.js";
+export { IpcTransport } from "./transports/IpcTransport.js";
+export type { IpcTransportOptions } from "./transports/IpcTransport.js";
+export { Eip1193Transport } from "./transports/Eip1193Transport.js";
+export type { Eip1193Provider, Eip1193TransportOptions } from "./transports/Eip1193Transport.js";
+export { MockTransport } from "./transports/MockTransport.js";
+export type { MockHandler, MockTransportOptions } from "./transports/MockTransport.js";
+export { WebSocketTransport } from "./transports/WebSocketTransport.js";
+export type {
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketTransportOptions,
+  ReconnectOptions,
+  Subscription,
+  SubscriptionListener,
+} from "./transports/WebSocketTransport.js";
+
+// Errors
+export {
+  RpcError,
+  HttpError,
+  JsonRpcError,
+  ExecutionRevertedError,
+  RpcTimeoutError,
+  NetworkError,
+  InvalidResponseError,
+  JSON_RPC_ERROR_CODES,
+  createJsonRpcError,
+  toRpcError,
+} from "./RpcErrors.js";
+
+// Retries
+export {
+  isRetryableError,
+  isRateLimitError,
+  parseRetryAfter,
+  getRetryDelay,
+  withRetry,
+} from "./RetryPolicy.js";
+export type { RetryOptions } from "./RetryPolicy.js";
@@ -1,6 +1,7 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   EthBlock,
   EthTransaction,
@@ -11,6 +12,7 @@ import type {
   BlockNumberOrTag,
   AccessListEntry,
   EthSyncingStatus,
+  EthBlockHeader,
 } from "./EthereumTypes.js";
 
 /**
@@ -18,8 +20,12 @@ import type {
  * Uses composition to integrate strategies with Ethereum RPC methods
  */
 export class EthereumClient extends NetworkClient {
-  constructor(config: StrategyConfig) {
-    super(config);
+  /**
+   * @param config - Strategy configuration with RPC URLs and strategy type
+   * @param chainId - Chain served, for Ethereum-compatible chains such as Hardhat (default 1)
+   */
+  constructor(config: StrategyConfig, chainId = 1) {
+    super(config, chainId);
   }
 
   // ===== Web3 Methods =====
@@ -451,4 +457,40 @@ export class EthereumClient extends NetworkClient {
     // biome-ignore lint/suspicious/noExplicitAny: <TODO>
     return this.execute<any>("trace_filter", [filter]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: EthBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<EthBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: EthLogFilter,
+    listener: (log: EthLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<EthLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
@@ -31,6 +31,9 @@ export interface EthBlock {
   withdrawals?: EthWithdrawal[]; // Shanghai
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type EthBlockHeader = Omit<EthBlock, "transactions" | "uncles">;
+
 // Transaction Types
 export interface EthTransaction {
   blockHash: string | null;
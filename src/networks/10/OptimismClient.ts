@@ -1,6 +1,9 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import { resultValue } from "../../cache/ResponseCache.js";
+import { parseBlockNumber } from "../../utils/blockNumbers.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   OptimismBlock,
   OptimismTransaction,
@@ -17,6 +20,7 @@ import type {
   OpP2PPeersResponse,
   OpP2PPeerStats,
   EthSyncingStatus,
+  OptimismBlockHeader,
 } from "./OptimismTypes.js";
 
 /**
@@ -28,7 +32,16 @@ import type {
  */
 export class OptimismClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 10);
+  }
+
+  /**
+   * Cached responses become permanent at the rollup node's finalized L2 block,
+   * falling back to the "finalized" tag when optimism_syncStatus is not served
+   */
+  protected async getFinalizedBlockNumber(): Promise<number | undefined> {
+    const number = parseBlockNumber(resultValue(await this.syncStatus())?.finalized_l2?.number);
+    return number !== false ? number : super.getFinalizedBlockNumber();
   }
 
   // ===== Optimism Rollup-Specific Methods =====
@@ -676,4 +689,40 @@ export class OptimismClient extends NetworkClient {
     // biome-ignore lint/suspicious/noExplicitAny: <TODO>
     return this.execute<any>("trace_filter", [filter]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: OptimismBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<OptimismBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: OptimismLogFilter,
+    listener: (log: OptimismLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<OptimismLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
@@ -32,6 +32,9 @@ export interface OptimismBlock {
   withdrawals?: OptimismWithdrawal[];
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type OptimismBlockHeader = Omit<OptimismBlock, "transactions" | "uncles">;
+
 // Transaction Types
 export interface OptimismTransaction {
   blockHash: string | null;
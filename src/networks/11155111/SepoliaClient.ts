@@ -2,6 +2,7 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   SepoliaBlock,
   SepoliaTransaction,
@@ -12,6 +13,7 @@ import type {
   BlockNumberOrTag,
   AccessListEntry,
   SepoliaSyncingStatus,
+  SepoliaBlockHeader,
 } from "./SepoliaTypes.js";
 
 /**
@@ -26,7 +28,7 @@ import type {
  */
 export class SepoliaClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 11155111);
   }
 
   // ===== Web3 Methods =====
@@ -421,4 +423,40 @@ export class SepoliaClient extends NetworkClient {
   async traceFilter(filter: Record<string, any>): Promise<StrategyResult<any>> {
     return this.execute<any>("trace_filter", [filter]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: SepoliaBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<SepoliaBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: SepoliaLogFilter,
+    listener: (log: SepoliaLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<SepoliaLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
@@ -8,6 +8,7 @@ export type {
   BlockTag,
   BlockNumberOrTag,
   EthBlock as SepoliaBlock,
+  EthBlockHeader as SepoliaBlockHeader,
   EthTransaction as SepoliaTransaction,
   EthTransactionReceipt as SepoliaTransactionReceipt,
   EthLog as SepoliaLog,
@@ -2,6 +2,7 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   PolygonBlock,
   PolygonTransaction,
@@ -14,6 +15,7 @@ import type {
   EthSyncingStatus,
   BorValidator,
   BorSnapshot,
+  PolygonBlockHeader,
 } from "./PolygonTypes.js";
 
 /**
@@ -25,7 +27,7 @@ import type {
  */
 export class PolygonClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 137);
   }
 
   // ===== BOR-SPECIFIC METHODS (POLYGON CONSENSUS ENGINE) =====
@@ -752,4 +754,40 @@ export class PolygonClient extends NetworkClient {
   async submitHashrate(hashrate: string, id: string): Promise<StrategyResult<boolean>> {
     return this.execute<boolean>("eth_submitHashrate", [hashrate, id]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: PolygonBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<PolygonBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: PolygonLogFilter,
+    listener: (log: PolygonLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<PolygonLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
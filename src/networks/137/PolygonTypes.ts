@@ -43,6 +43,9 @@ export interface PolygonBlock {
   withdrawals?: PolygonWithdrawal[]; // Withdrawals array
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type PolygonBlockHeader = Omit<PolygonBlock, "transactions" | "uncles">;
+
 // ===== Transaction Structure =====
 
 export interface PolygonTransaction {
@@ -2,6 +2,7 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   ArbitrumBlock,
   ArbitrumTransaction,
@@ -13,6 +14,7 @@ import type {
   ArbitrumTraceResponse,
   ArbitrumTraceOptions,
   BlockNumberOrTag,
+  ArbitrumBlockHeader,
 } from "./ArbitrumTypes.js";
 
 /**
@@ -25,7 +27,7 @@ import type {
  */
 export class ArbitrumClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 42161);
   }
 
   // ===== Arbitrum-Specific Trace Methods (NETWORK-SPECIFIC - MOST IMPORTANT!) =====
@@ -620,4 +622,40 @@ export class ArbitrumClient extends NetworkClient {
   async submitHashrate(hashrate: string, id: string): Promise<StrategyResult<boolean>> {
     return this.execute<boolean>("eth_submitHashrate", [hashrate, id]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: ArbitrumBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<ArbitrumBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: ArbitrumLogFilter,
+    listener: (log: ArbitrumLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<ArbitrumLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
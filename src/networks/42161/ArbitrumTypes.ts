@@ -31,6 +31,9 @@ export interface ArbitrumBlock {
   uncles: string[];
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type ArbitrumBlockHeader = Omit<ArbitrumBlock, "transactions" | "uncles">;
+
 // Transaction Types
 export interface ArbitrumTransaction {
   blockHash: string;
@@ -2,6 +2,9 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import { resultValue } from "../../cache/ResponseCache.js";
+import { parseBlockNumber } from "../../utils/blockNumbers.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   BNBBlock,
   BNBTransaction,
@@ -19,6 +22,7 @@ import type {
   BNBTransactionDataAndReceipt,
   BNBHealthStatus,
   BNBTxPoolStatus,
+  BNBBlockHeader,
 } from "./BNBTypes.js";
 
 /**
@@ -34,7 +38,16 @@ import type {
  */
 export class BNBClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 56);
+  }
+
+  /**
+   * Cached responses become permanent at the fast finality header (BEP-126),
+   * falling back to the "finalized" tag when the method is not served
+   */
+  protected async getFinalizedBlockNumber(): Promise<number | undefined> {
+    const number = parseBlockNumber(resultValue(await this.getFinalizedHeader())?.number);
+    return number !== false ? number : super.getFinalizedBlockNumber();
   }
 
   // ===== BSC-Specific Methods (NETWORK-SPECIFIC - MOST IMPORTANT!) =====
@@ -536,4 +549,40 @@ export class BNBClient extends NetworkClient {
   ): Promise<StrategyResult<any>> {
     return this.execute<any>("trace_replayBlockTransactions", [blockTag, traceTypes]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: BNBBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<BNBBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: BNBLogFilter,
+    listener: (log: BNBLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<BNBLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
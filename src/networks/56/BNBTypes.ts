@@ -33,6 +33,9 @@ export interface BNBBlock {
   withdrawals?: BNBWithdrawal[];
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type BNBBlockHeader = Omit<BNBBlock, "transactions" | "uncles">;
+
 // Transaction Types
 export interface BNBTransaction {
   blockHash: string | null;
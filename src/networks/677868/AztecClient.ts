@@ -2,6 +2,7 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import { resultValue } from "../../cache/ResponseCache.js";
 import type {
   L2Block,
   BlockHeader,
@@ -48,7 +49,15 @@ import type {
  */
 export class AztecClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 677868);
+  }
+
+  /**
+   * Aztec blocks are cached once finalized
+   */
+  protected async getFinalizedBlockNumber(): Promise<number | undefined> {
+    const finalized = resultValue(await this.getL2Tips())?.finalized?.number;
+    return typeof finalized === "number" ? finalized : undefined;
   }
 
   // ===== Block Queries =====
@@ -1,6 +1,9 @@
 import { NetworkClient } from "../../NetworkClient.js";
 import type { StrategyResult } from "../../strategies/strategiesTypes.js";
 import type { StrategyConfig } from "../../strategies/requestStrategy.js";
+import { resultValue } from "../../cache/ResponseCache.js";
+import { parseBlockNumber } from "../../utils/blockNumbers.js";
+import type { Subscription } from "../../transports/WebSocketTransport.js";
 import type {
   BaseBlock,
   BaseTransaction,
@@ -17,6 +20,7 @@ import type {
   OpP2PPeersResponse,
   OpP2PPeerStats,
   EthSyncingStatus,
+  BaseBlockHeader,
 } from "./BaseTypes.js";
 
 /**
@@ -29,7 +33,16 @@ import type {
  */
 export class BaseClient extends NetworkClient {
   constructor(config: StrategyConfig) {
-    super(config);
+    super(config, 8453);
+  }
+
+  /**
+   * Cached responses become permanent at the rollup node's finalized L2 block,
+   * falling back to the "finalized" tag when optimism_syncStatus is not served
+   */
+  protected async getFinalizedBlockNumber(): Promise<number | undefined> {
+    const number = parseBlockNumber(resultValue(await this.syncStatus())?.finalized_l2?.number);
+    return number !== false ? number : super.getFinalizedBlockNumber();
   }
 
   // ===== Base/Optimism Rollup-Specific Methods =====
@@ -901,4 +914,40 @@ export class BaseClient extends NetworkClient {
   async submitHashrate(hashrate: string, id: string): Promise<StrategyResult<boolean>> {
     return this.execute<boolean>("eth_submitHashrate", [hashrate, id]);
   }
+
+  // ===== Subscriptions (WebSocket) =====
+
+  /**
+   * Subscribe to new block headers
+   * Requires wsUrl in the client config
+   */
+  async subscribeNewHeads(
+    listener: (head: BaseBlockHeader) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<BaseBlockHeader>(["newHeads"], listener, onError);
+  }
+
+  /**
+   * Subscribe to logs matching a filter
+   * Requires wsUrl in the client config
+   */
+  async subscribeLogs(
+    filter: BaseLogFilter,
+    listener: (log: BaseLog) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<BaseLog>(["logs", filter], listener, onError);
+  }
+
+  /**
+   * Subscribe to hashes of transactions entering the mempool
+   * Requires wsUrl in the client config
+   */
+  async subscribePendingTransactions(
+    listener: (txHash: string) => void,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    return this.subscribe<string>(["newPendingTransactions"], listener, onError);
+  }
 }
@@ -33,6 +33,9 @@ export interface BaseBlock {
   withdrawals?: BaseWithdrawal[];
 }
 
+// Block header as delivered by newHeads subscriptions (no transaction or uncle lists)
+export type BaseBlockHeader = Omit<BaseBlock, "transactions" | "uncles">;
+
 // Transaction Types
 export interface BaseTransaction {
   blockHash: string | null;
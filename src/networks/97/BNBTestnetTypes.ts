@@ -8,6 +8,7 @@ export type {
   BlockTag,
   BlockNumberOrTag,
   BNBBlock as BNBTestnetBlock,
+  BNBBlockHeader as BNBTestnetBlockHeader,
   BNBTransaction as BNBTestnetTransaction,
   BNBTransactionReceipt as BNBTestnetTransactionReceipt,
   BNBLog as BNBTestnetLog,
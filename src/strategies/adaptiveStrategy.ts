@@ -0,0 +1,196 @@
+import type {
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import { FallbackStrategy } from "./fallbackStrategy.js";
+import { ParallelStrategy, type ParallelStrategyOptions } from "./parallelStrategy.js";
+import {
+  type ProviderScore,
+  type ProviderStatsOptions,
+  ProviderStatsTracker,
+} from "./providerStats.js";
+import { isCallerAbort } from "./strategyUtils.js";
+
+export interface AdaptiveStrategyOptions extends ProviderStatsOptions {
+  /**
+   * fallback: try providers one at a time, best score first (default)
+   * parallel: fan out to the best providers only
+   */
+  mode?: "fallback" | "parallel";
+  /** Providers queried in parallel mode (default 3) */
+  fanOut?: number;
+  /** Milliseconds between background pings of every provider; off when unset */
+  pingInterval?: number;
+  /** Method used for background pings (default "eth_blockNumber") */
+  pingMethod?: string;
+  /** Milliseconds after which a background ping counts as failed (default 5000) */
+  pingTimeout?: number;
+  /** Tracker to record into, e.g. one shared with another strategy */
+  stats?: ProviderStatsTracker;
+  /** Options for the parallel fan-out */
+  parallel?: ParallelStrategyOptions;
+}
+
+export class AdaptiveStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  private stats: ProviderStatsTracker;
+  /** Runs each request on the providers in score order at that moment */
+  private delegate: FallbackStrategy | ParallelStrategy;
+  private pingMethod: string;
+  private pingTimeout: number;
+  private pingTimer?: ReturnType<typeof setInterval>;
+  /** Aborts the pings in flight on close() */
+  private pingController = new AbortController();
+  private pinging = false;
+  constructor(rpcClients: Transport[], options: AdaptiveStrategyOptions = {}) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    this.rpcClients = rpcClients;
+    this.stats = options.stats ?? new ProviderStatsTracker(options);
+    this.pingMethod = options.pingMethod ?? "eth_blockNumber";
+    this.pingTimeout = options.pingTimeout ?? 5000;
+
+    if (options.mode === "parallel") {
+      const fanOut = Math.max(1, options.fanOut ?? 3);
+      this.delegate = new ParallelStrategy(rpcClients, {
+        ...options.parallel,
+        select: (clients) => this.rank(clients).slice(0, fanOut),
+      });
+    } else {
+      // Scores already demote failing providers, so the breaker is not needed
+      this.delegate = new FallbackStrategy(rpcClients, {
+        circuitBreaker: false,
+        select: (clients) => this.rank(clients),
+      });
+    }
+
+    if (options.pingInterval) {
+      this.pingTimer = setInterval(() => this.ping(), options.pingInterval);
+      // Background pings must not keep the process alive
+      (this.pingTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Execute request on the providers with the best scores
+   * In fallback mode every provider is tried in score order; in parallel mode
+   * only the best fanOut providers are queried
+   * Every attempt is recorded into the provider scores
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const result = await this.delegate.execute<T>(method, params, options);
+    this.recordResponses(result.metadata?.responses ?? [], options);
+    return this.withMetadata(result);
+  }
+
+  /**
+   * Execute a batch on the providers with the best scores
+   * Each provider is recorded once per batch
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const results = await this.delegate.executeBatch<T>(requests, options);
+
+    const recorded = new Set<string>();
+    return results.map((result) => {
+      const responses = (result.metadata?.responses ?? []).filter(
+        (response) => !recorded.has(response.url),
+      );
+      for (const response of responses) {
+        recorded.add(response.url);
+      }
+      this.recordResponses(responses, options);
+      return this.withMetadata(result);
+    });
+  }
+
+  /**
+   * Scores of every provider, best first
+   */
+  getProviderScores(): ProviderScore[] {
+    return this.rank(this.rpcClients).map((rpcClient) => this.stats.getScore(rpcClient.getUrl()));
+  }
+
+  private rank(rpcClients: Transport[]): Transport[] {
+    return this.stats.rank(rpcClients, (rpcClient) => rpcClient.getUrl());
+  }
+
+  private recordResponses(responses: RPCProviderResponse[], options?: RequestOptions): void {
+    if (!isCallerAbort(options)) {
+      this.stats.recordResponses(responses);
+    }
+  }
+
+  private withMetadata<T>(result: StrategyResult<T>): StrategyResult<T> {
+    if (!result.metadata) {
+      return result;
+    }
+    const metadata: RPCMetadata = { ...result.metadata, strategy: "adaptive" };
+    return { ...result, metadata };
+  }
+
+  /**
+   * Ping every provider and record the outcome
+   * Skipped while the previous round is still in flight
+   */
+  private async ping(): Promise<void> {
+    if (this.pinging) {
+      return;
+    }
+    this.pinging = true;
+    const { signal } = this.pingController;
+    try {
+      await Promise.all(
+        this.rpcClients.map(async (rpcClient) => {
+          const startTime = Date.now();
+          try {
+            await rpcClient.call(this.pingMethod, [], { timeout: this.pingTimeout, signal });
+            this.stats.record(rpcClient.getUrl(), Date.now() - startTime);
+          } catch (error) {
+            if (!signal.aborted) {
+              this.stats.record(rpcClient.getUrl(), Date.now() - startTime, error);
+            }
+          }
+        }),
+      );
+    } finally {
+      this.pinging = false;
+    }
+  }
+
+  /**
+   * Stop background pings and close every provider transport
+   */
+  close(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+    this.pingController.abort();
+    for (const rpcClient of this.rpcClients) {
+      rpcClient.close();
+    }
+  }
+
+  getName(): string {
+    return "adaptive";
+  }
+}
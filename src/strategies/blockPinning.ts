@@ -0,0 +1,107 @@
+import type { RequestOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import { parseBlockNumber } from "../utils/blockNumbers.js";
+
+/**
+ * Which common block "latest" is pinned to
+ * - head: the lowest head among the providers
+ * - safe / finalized: the lowest block with that tag among the providers
+ */
+export type BlockPinMode = "head" | "safe" | "finalized";
+
+/**
+ * Block that "latest" params were rewritten to
+ */
+export interface PinnedBlock {
+  mode: BlockPinMode;
+  /** Hex block number */
+  number: string;
+}
+
+/**
+ * Methods that take a BlockNumberOrTag parameter
+ * The tag's position varies between clients (e.g. trace_call), so any
+ * top-level "latest" param of these methods is treated as the block tag
+ */
+export const BLOCK_TAG_METHODS = new Set([
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+  "eth_getTransactionCount",
+  "eth_getProof",
+  "eth_call",
+  "eth_estimateGas",
+  "eth_createAccessList",
+  "eth_feeHistory",
+  "eth_getBlockByNumber",
+  "eth_getBlockReceipts",
+  "eth_getBlockTransactionCountByNumber",
+  "eth_getTransactionByBlockNumberAndIndex",
+  "eth_getUncleByBlockNumberAndIndex",
+  "eth_getUncleCountByBlockNumber",
+  "eth_getHeaderByNumber",
+  "eth_getTransactionsByBlockNumber",
+  "eth_getBlobSidecars",
+  "debug_accountRange",
+  "debug_traceBlockByNumber",
+  "debug_traceCall",
+  "trace_block",
+  "trace_call",
+  "trace_replayBlockTransactions",
+  "arbtrace_block",
+  "arbtrace_call",
+  "arbtrace_callMany",
+  "bor_getAuthor",
+]);
+
+/**
+ * True when the call has a "latest" block tag that pinning would rewrite
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export function hasLatestTag(method: string, params: any[]): boolean {
+  return BLOCK_TAG_METHODS.has(method) && params.some((param) => param === "latest");
+}
+
+/**
+ * Replace top-level "latest" params with a concrete block number
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export function pinParams(params: any[], blockNumber: string): any[] {
+  return params.map((param) => (param === "latest" ? blockNumber : param));
+}
+
+/**
+ * Resolve the common block to pin to by asking every provider
+ * Takes the lowest answer so every provider has the block
+ *
+ * @returns The pinned block, or undefined if no provider answered
+ */
+export async function resolvePinnedBlock(
+  transports: Transport[],
+  mode: BlockPinMode,
+  options?: RequestOptions,
+): Promise<PinnedBlock | undefined> {
+  const numbers = await Promise.all(
+    transports.map(async (transport) => {
+      try {
+        if (mode === "head") {
+          return parseBlockNumber(await transport.call<string>("eth_blockNumber", [], options));
+        }
+        const block = await transport.call<{ number?: string } | null>(
+          "eth_getBlockByNumber",
+          [mode, false],
+          options,
+        );
+        return parseBlockNumber(block?.number);
+      } catch {
+        return undefined;
+      }
+    }),
+  );
+
+  const known = numbers.filter((number): number is number => typeof number === "number");
+  if (known.length === 0) {
+    return undefined;
+  }
+  return { mode, number: `0x${Math.min(...known).toString(16)}` };
+}
@@ -0,0 +1,153 @@
+import type {
+  BroadcastAcceptance,
+  BroadcastReport,
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { RequestOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import { closeTransports, createErrorResponse } from "./strategyUtils.js";
+import { diffResponses, hashResponse } from "./responseComparison.js";
+import { keccak256 } from "../utils/keccak.js";
+import { InvalidResponseError } from "../RpcErrors.js";
+
+/**
+ * Methods that submit a transaction and should reach every provider
+ */
+export const BROADCAST_METHODS = ["eth_sendRawTransaction", "node_sendTx"];
+
+// Errors meaning the provider already has the transaction in its pool or chain
+const ALREADY_KNOWN_PATTERN =
+  /already known|known transaction|already imported|already exists|already in (the )?(tx|transaction )?(pool|mempool)/i;
+
+export class BroadcastStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  constructor(rpcClients: Transport[]) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    this.rpcClients = rpcClients;
+  }
+
+  /**
+   * Submit the transaction to every provider at once
+   * Succeeds when at least one provider accepted it or already knew it; the
+   * tx hashes returned by the accepting providers must match, otherwise the
+   * result is flagged as inconsistent
+   * Rejections such as "nonce too low" are reported per provider but do not
+   * fail the broadcast when another provider accepted the transaction
+   * For eth_sendRawTransaction the tx hash is derived from the raw transaction;
+   * a provider returning a different hash got a different transaction and
+   * counts as rejected. If the hash cannot be derived and no provider returned
+   * one, the broadcast fails, since callers expect a hash
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
+    const derivedHash = method === "eth_sendRawTransaction" ? deriveTxHash(params[0]) : undefined;
+
+    const responses = await Promise.all(
+      this.rpcClients.map(async (rpcClient): Promise<RPCProviderResponse> => {
+        const startTime = Date.now();
+        try {
+          const data = await rpcClient.call<T>(method, params, options);
+          if (
+            derivedHash !== undefined &&
+            (typeof data !== "string" || data.toLowerCase() !== derivedHash)
+          ) {
+            throw new InvalidResponseError(
+              `Returned tx hash ${String(data)} does not match ${derivedHash}`,
+              rpcClient.getUrl(),
+            );
+          }
+          return {
+            url: rpcClient.getUrl(),
+            status: "success",
+            responseTime: Date.now() - startTime,
+            data,
+            hash: hashResponse(data),
+          };
+        } catch (error) {
+          return createErrorResponse(rpcClient.getUrl(), error, Date.now() - startTime);
+        }
+      }),
+    );
+
+    const acceptance = responses.map(toAcceptance);
+    const successful = responses.filter((response) => response.status === "success");
+    const hashMismatch = successful.some((response) => response.hash !== successful[0]?.hash);
+    const txHash =
+      derivedHash ?? acceptance.find((provider) => provider.txHash !== undefined)?.txHash;
+    const broadcast: BroadcastReport = {
+      txHash,
+      accepted: acceptance.filter((provider) => provider.status !== "rejected").length,
+      total: this.rpcClients.length,
+      hashMismatch,
+      providers: acceptance,
+    };
+
+    const metadata: RPCMetadata = {
+      strategy: "broadcast",
+      timestamp,
+      responses,
+      hasInconsistencies: hashMismatch,
+      differences: hashMismatch ? diffResponses(responses) : undefined,
+      broadcast,
+    };
+
+    const missingHash = method === "eth_sendRawTransaction" && txHash === undefined;
+    if (broadcast.accepted > 0 && !missingHash) {
+      const data = successful.length > 0 ? successful[0]?.data : txHash;
+      return { success: true, data: data as T, metadata };
+    }
+
+    return { success: false, errors: responses, metadata };
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
+  getName(): string {
+    return "broadcast";
+  }
+}
+
+/**
+ * True when a provider error means it already has the transaction
+ */
+export function isAlreadyKnownError(message: string | undefined): boolean {
+  return !!message && ALREADY_KNOWN_PATTERN.test(message);
+}
+
+/**
+ * Hash of a signed raw transaction, or undefined when it is not hex
+ */
+function deriveTxHash(rawTransaction: unknown): string | undefined {
+  if (typeof rawTransaction !== "string") {
+    return undefined;
+  }
+  try {
+    return keccak256(rawTransaction);
+  } catch {
+    return undefined;
+  }
+}
+
+function toAcceptance(response: RPCProviderResponse): BroadcastAcceptance {
+  if (response.status === "success") {
+    const txHash = typeof response.data === "string" ? response.data.toLowerCase() : undefined;
+    return { url: response.url, status: "accepted", txHash };
+  }
+  if (isAlreadyKnownError(response.error)) {
+    return { url: response.url, status: "known" };
+  }
+  return { url: response.url, status: "rejected", error: response.error };
+}
@@ -0,0 +1,187 @@
+import { JsonRpcError } from "../RpcErrors.js";
+import { isRateLimitError } from "../RetryPolicy.js";
+
+/**
+ * closed: requests flow normally
+ * open: the provider is skipped until the cooldown elapses
+ * half-open: one probe request decides whether to close or re-open
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 3) */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit waits before allowing a probe (default 30000) */
+  cooldown?: number;
+  /** Number of recent requests used for the rolling stats (default 20) */
+  windowSize?: number;
+}
+
+/**
+ * Health snapshot of a single provider
+ */
+export interface ProviderHealth {
+  url: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failed share of the requests in the rolling window, from 0 to 1 */
+  errorRate: number;
+  /** Mean latency of successful requests in the rolling window, in milliseconds */
+  averageLatency?: number;
+  /** Requests in the rolling window */
+  sampleSize: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  /** When the circuit last opened */
+  openedAt?: number;
+}
+
+interface Sample {
+  success: boolean;
+  latency: number;
+}
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 3,
+  cooldown: 30_000,
+  windowSize: 20,
+};
+
+/**
+ * Circuit breaker and rolling health stats for one provider
+ */
+export class CircuitBreaker {
+  private url: string;
+  private options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private samples: Sample[] = [];
+  private probeInFlight = false;
+  private openedAt?: number;
+  private lastSuccessAt?: number;
+  private lastFailureAt?: number;
+  private lastError?: string;
+
+  constructor(url: string, options: CircuitBreakerOptions = {}) {
+    this.url = url;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Check without side effects whether tryAcquire() would admit a request
+   */
+  isAvailable(now = Date.now()): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return now - (this.openedAt ?? 0) >= this.options.cooldown;
+      case "half-open":
+        return !this.probeInFlight;
+    }
+  }
+
+  /**
+   * Check whether a request may be sent to the provider
+   * Moves an open circuit to half-open once the cooldown has elapsed and
+   * admits a single probe while half-open
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === "open") {
+      if (now - (this.openedAt ?? 0) < this.options.cooldown) {
+        return false;
+      }
+      this.state = "half-open";
+      this.probeInFlight = false;
+    }
+    if (this.state === "half-open") {
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Give back an admitted request without recording an outcome (e.g. caller abort)
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  recordSuccess(latency: number, now = Date.now()): void {
+    this.addSample({ success: true, latency });
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = now;
+    this.state = "closed";
+    this.probeInFlight = false;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(latency: number, error: unknown, now = Date.now()): void {
+    this.addSample({ success: false, latency });
+    this.consecutiveFailures++;
+    this.lastFailureAt = now;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.probeInFlight = false;
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+
+  /**
+   * Record the outcome of a request
+   * Deterministic JSON-RPC errors (reverts, invalid params, unsupported methods)
+   * prove the provider is up, so they count as successes for health purposes
+   */
+  record(latency: number, error?: unknown, now = Date.now()): void {
+    if (error === undefined || !isProviderFailure(error)) {
+      this.recordSuccess(latency, now);
+    } else {
+      this.recordFailure(latency, error, now);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getHealth(): ProviderHealth {
+    const successes = this.samples.filter((sample) => sample.success);
+    const failures = this.samples.length - successes.length;
+
+    return {
+      url: this.url,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.samples.length > 0 ? failures / this.samples.length : 0,
+      averageLatency:
+        successes.length > 0
+          ? successes.reduce((sum, sample) => sum + sample.latency, 0) / successes.length
+          : undefined,
+      sampleSize: this.samples.length,
+      lastSuccessAt: this.lastSuccessAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      openedAt: this.openedAt,
+    };
+  }
+
+  private addSample(sample: Sample): void {
+    this.samples.push(sample);
+    if (this.samples.length > this.options.windowSize) {
+      this.samples.shift();
+    }
+  }
+}
+
+/**
+ * True when an error says something about the provider rather than the request
+ */
+export function isProviderFailure(error: unknown): boolean {
+  return !(error instanceof JsonRpcError) || isRateLimitError(error);
+}
@@ -0,0 +1,281 @@
+import { canonicalize, diffResponses, hashResponse } from "./responseComparison.js";
+import type { ResponseDifference, RPCProviderResponse } from "./strategiesTypes.js";
+import { matchMethod } from "./strategyUtils.js";
+
+/**
+ * How responses from different providers are compared for a method
+ * - exact: canonical responses must be identical
+ * - numeric: numbers and quantities may differ within a tolerance
+ * - sameBlock: only responses about the same block height are compared, so
+ *   providers at different heads agree while different hashes at one height
+ *   (a fork) are flagged
+ * - none: never flag inconsistencies (node-local data such as peers or sync state)
+ * ignoreFields are dotted paths removed before comparing (applied to each
+ * element when the response is an array)
+ */
+export type ComparisonPolicy =
+  | { type: "exact"; ignoreFields?: string[] }
+  | {
+      type: "numeric";
+      /** Maximum absolute difference */
+      tolerance?: number;
+      /** Maximum difference relative to the larger value, e.g. 0.1 for 10% */
+      relativeTolerance?: number;
+    }
+  | {
+      type: "sameBlock";
+      /** Dotted path to the field identifying the block height (default "number") */
+      blockField?: string;
+      ignoreFields?: string[];
+    }
+  | { type: "none" };
+
+export interface ComparisonOutcome {
+  hasInconsistencies: boolean;
+  differences?: ResponseDifference[];
+}
+
+const BLOCK: ComparisonPolicy = {
+  type: "sameBlock",
+  blockField: "number",
+  // Dropped from post-merge blocks by some clients
+  ignoreFields: ["totalDifficulty"],
+};
+// Pending on one provider and mined on another is propagation, not a fork
+const IN_BLOCK: ComparisonPolicy = { type: "sameBlock", blockField: "blockNumber" };
+const BLOCK_HEIGHT: ComparisonPolicy = { type: "numeric", tolerance: 2 };
+const FEE: ComparisonPolicy = { type: "numeric", relativeTolerance: 0.2 };
+const NODE_LOCAL: ComparisonPolicy = { type: "none" };
+
+/**
+ * Default policies for the methods exposed by the network clients
+ * Keys are method names or prefixes ending with "*"; unlisted methods use exact
+ */
+export const DEFAULT_COMPARISON_POLICIES: Record<string, ComparisonPolicy> = {
+  // Chain head moves between requests
+  eth_blockNumber: BLOCK_HEIGHT,
+  eth_getBlockByNumber: BLOCK,
+  eth_getBlockByHash: BLOCK,
+  eth_getHeaderByNumber: BLOCK,
+  eth_getFinalizedBlock: BLOCK,
+  eth_getFinalizedHeader: BLOCK,
+  eth_getUncleByBlockNumberAndIndex: BLOCK,
+  eth_getUncleByBlockHashAndIndex: BLOCK,
+  eth_getBlockReceipts: IN_BLOCK,
+  eth_getTransactionReceipt: IN_BLOCK,
+  eth_getTransactionByHash: IN_BLOCK,
+  eth_getTransactionByBlockNumberAndIndex: IN_BLOCK,
+  eth_getTransactionByBlockHashAndIndex: IN_BLOCK,
+  eth_getTransactionsByBlockNumber: IN_BLOCK,
+  // Fee estimates drift with each node's view of the mempool
+  eth_gasPrice: FEE,
+  eth_maxPriorityFeePerGas: FEE,
+  eth_blobBaseFee: FEE,
+  eth_estimateGas: { type: "numeric", relativeTolerance: 0.1 },
+  eth_feeHistory: NODE_LOCAL,
+  // Node-local state
+  eth_syncing: NODE_LOCAL,
+  eth_mining: NODE_LOCAL,
+  eth_hashrate: NODE_LOCAL,
+  eth_coinbase: NODE_LOCAL,
+  eth_accounts: NODE_LOCAL,
+  eth_health: NODE_LOCAL,
+  eth_newFilter: NODE_LOCAL,
+  eth_newBlockFilter: NODE_LOCAL,
+  eth_newPendingTransactionFilter: NODE_LOCAL,
+  eth_newFinalizedHeaderFilter: NODE_LOCAL,
+  eth_getFilterChanges: NODE_LOCAL,
+  eth_uninstallFilter: NODE_LOCAL,
+  net_peerCount: NODE_LOCAL,
+  net_listening: NODE_LOCAL,
+  web3_clientVersion: NODE_LOCAL,
+  "txpool_*": NODE_LOCAL,
+  "admin_*": NODE_LOCAL,
+  // Polygon: the proposer rotates with each block
+  bor_getCurrentProposer: NODE_LOCAL,
+  // Optimism: sync status is per node, outputs embed it
+  optimism_syncStatus: NODE_LOCAL,
+  optimism_version: NODE_LOCAL,
+  optimism_outputAtBlock: { type: "exact", ignoreFields: ["syncStatus"] },
+  // Aztec
+  node_getBlockNumber: BLOCK_HEIGHT,
+  node_getProvenBlockNumber: BLOCK_HEIGHT,
+  node_getBlock: { type: "sameBlock", blockField: "header.globalVariables.blockNumber" },
+  node_getBlockHeader: { type: "sameBlock", blockField: "globalVariables.blockNumber" },
+  node_getCurrentBaseFees: FEE,
+  node_getPendingTxs: NODE_LOCAL,
+  node_getPendingTxCount: NODE_LOCAL,
+  node_getWorldStateSyncStatus: NODE_LOCAL,
+  node_getNodeInfo: NODE_LOCAL,
+  node_getNodeVersion: NODE_LOCAL,
+  node_getEncodedEnr: NODE_LOCAL,
+  node_isReady: NODE_LOCAL,
+  "nodeAdmin_*": NODE_LOCAL,
+};
+
+/**
+ * Per-method comparison policies with prefix patterns
+ * Exact method names win over patterns; longer patterns win over shorter ones
+ */
+export class ComparisonPolicyRegistry {
+  private policies = new Map<string, ComparisonPolicy>();
+  private fallback: ComparisonPolicy = { type: "exact" };
+
+  constructor(policies: Record<string, ComparisonPolicy> = DEFAULT_COMPARISON_POLICIES) {
+    for (const pattern of Object.keys(policies)) {
+      this.register(pattern, policies[pattern] as ComparisonPolicy);
+    }
+  }
+
+  /**
+   * Set the policy for a method name or a prefix pattern such as "debug_*"
+   */
+  register(pattern: string, policy: ComparisonPolicy): this {
+    this.policies.set(pattern, policy);
+    return this;
+  }
+
+  /**
+   * Get the policy that applies to a method
+   */
+  get(method: string): ComparisonPolicy {
+    return matchMethod(this.policies, method) ?? this.fallback;
+  }
+}
+
+/**
+ * Compare successful provider responses under a policy
+ */
+export function compareResponses(
+  responses: RPCProviderResponse[],
+  policy: ComparisonPolicy,
+): ComparisonOutcome {
+  const successful = responses.filter((response) => response.status === "success");
+  if (successful.length <= 1 || policy.type === "none") {
+    return { hasInconsistencies: false };
+  }
+
+  switch (policy.type) {
+    case "exact":
+      return compareExact(project(successful, policy.ignoreFields));
+    case "numeric": {
+      const [reference, ...others] = successful;
+      const consistent = others.every((response) =>
+        withinTolerance(canonicalize(reference?.data), canonicalize(response.data), policy),
+      );
+      return consistent
+        ? { hasInconsistencies: false }
+        : { hasInconsistencies: true, differences: diffResponses(successful) };
+    }
+    case "sameBlock": {
+      const groups = new Map<string, RPCProviderResponse[]>();
+      for (const response of project(successful, policy.ignoreFields)) {
+        const key = JSON.stringify(canonicalize(blockOf(response.data, policy.blockField)));
+        groups.set(key ?? "undefined", [...(groups.get(key ?? "undefined") ?? []), response]);
+      }
+      const differences: ResponseDifference[] = [];
+      groups.forEach((group) => {
+        differences.push(...(compareExact(group).differences ?? []));
+      });
+      return differences.length > 0
+        ? { hasInconsistencies: true, differences }
+        : { hasInconsistencies: false };
+    }
+  }
+}
+
+function compareExact(responses: RPCProviderResponse[]): ComparisonOutcome {
+  const reference = hashResponse(responses[0]?.data);
+  if (responses.every((response) => hashResponse(response.data) === reference)) {
+    return { hasInconsistencies: false };
+  }
+  return { hasInconsistencies: true, differences: diffResponses(responses) };
+}
+
+/**
+ * Copy of the responses with the ignored fields removed from their data
+ */
+function project(responses: RPCProviderResponse[], ignoreFields?: string[]): RPCProviderResponse[] {
+  if (!ignoreFields || ignoreFields.length === 0) {
+    return responses;
+  }
+  return responses.map((response) => ({
+    ...response,
+    data: Array.isArray(response.data)
+      ? response.data.map((item) => omitFields(item, ignoreFields))
+      : omitFields(response.data, ignoreFields),
+  }));
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+function omitFields(value: any, fields: string[]): any {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  const copy = { ...value };
+  for (const field of fields) {
+    const [head, ...rest] = field.split(".");
+    if (head === undefined || !(head in copy)) continue;
+    if (rest.length === 0) {
+      delete copy[head];
+    } else {
+      copy[head] = omitFields(copy[head], [rest.join(".")]);
+    }
+  }
+  return copy;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+function blockOf(data: any, blockField = "number"): unknown {
+  const item = Array.isArray(data) ? data[0] : data;
+  return blockField
+    .split(".")
+    .reduce(
+      (value, key) => (value !== null && typeof value === "object" ? value[key] : undefined),
+      item,
+    );
+}
+
+/**
+ * Compare two canonical values, allowing numeric leaves to differ within the tolerance
+ */
+function withinTolerance(
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  a: any,
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  b: any,
+  policy: { tolerance?: number; relativeTolerance?: number },
+): boolean {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== undefined && y !== undefined) {
+    const allowed = Math.max(
+      policy.tolerance ?? 0,
+      (policy.relativeTolerance ?? 0) * Math.max(Math.abs(x), Math.abs(y)),
+    );
+    return Math.abs(x - y) <= allowed;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, index) => withinTolerance(item, b[index], policy))
+    );
+  }
+  if (a !== null && b !== null && typeof a === "object" && typeof b === "object") {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => withinTolerance(a[key], b[key], policy))
+    );
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string" && /^(0x[0-9a-f]+|\d+)$/.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
@@ -0,0 +1,200 @@
+import type {
+  ConsensusReport,
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import { callBatch, type Transport } from "../transports/Transport.js";
+import { closeTransports, createErrorResponse, createLinkedSignal } from "./strategyUtils.js";
+import { diffResponses, hashResponse } from "./responseComparison.js";
+
+export interface ConsensusStrategyOptions {
+  /** Providers that must return the same value (default: a strict majority) */
+  quorum?: number;
+}
+
+export class ConsensusStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  private quorum: number;
+  constructor(rpcClients: Transport[], options: ConsensusStrategyOptions = {}) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    const quorum = options.quorum ?? Math.floor(rpcClients.length / 2) + 1;
+    if (quorum < 1 || quorum > rpcClients.length) {
+      throw new Error(`Quorum must be between 1 and ${rpcClients.length}, got ${quorum}`);
+    }
+    this.rpcClients = rpcClients;
+    this.quorum = quorum;
+  }
+
+  /**
+   * Execute request on every provider and return the value agreed by the quorum
+   * Stops as soon as the quorum agrees, or as soon as it can no longer be
+   * reached, cancelling the outstanding requests
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
+    const { signal, cancel, cleanup } = createLinkedSignal(options?.signal);
+
+    const responses = await new Promise<(RPCProviderResponse | undefined)[]>((resolve) => {
+      const responses: (RPCProviderResponse | undefined)[] = this.rpcClients.map(() => undefined);
+      let settled = 0;
+      let decided = false;
+
+      this.rpcClients.forEach(async (rpcClient, index) => {
+        const startTime = Date.now();
+        try {
+          const data = await rpcClient.call<T>(method, params, { ...options, signal });
+          responses[index] = {
+            url: rpcClient.getUrl(),
+            status: "success",
+            responseTime: Date.now() - startTime,
+            data,
+            hash: hashResponse(data),
+          };
+        } catch (error) {
+          responses[index] = decided
+            ? { url: rpcClient.getUrl(), status: "cancelled", responseTime: Date.now() - startTime }
+            : createErrorResponse(rpcClient.getUrl(), error, Date.now() - startTime);
+        }
+        settled++;
+
+        if (!decided && this.isDecided(responses, settled)) {
+          decided = true;
+          cancel("consensus already decided");
+        }
+        if (settled === this.rpcClients.length) {
+          resolve(responses);
+        }
+      });
+    });
+    cleanup();
+
+    return this.buildResult<T>(responses as RPCProviderResponse[], timestamp);
+  }
+
+  /**
+   * Execute a batch on every provider and apply the quorum to each item
+   * Batches are not stopped early since items settle together per provider
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const timestamp = Date.now();
+
+    const responsesByProvider = await Promise.all(
+      this.rpcClients.map(async (rpcClient): Promise<RPCProviderResponse[]> => {
+        const startTime = Date.now();
+        try {
+          const items = await callBatch<T>(rpcClient, requests, options);
+          const responseTime = Date.now() - startTime;
+
+          return items.map((item) =>
+            item.success
+              ? {
+                  url: rpcClient.getUrl(),
+                  status: "success" as const,
+                  responseTime,
+                  data: item.data,
+                  hash: hashResponse(item.data),
+                }
+              : createErrorResponse(rpcClient.getUrl(), item.error, responseTime),
+          );
+        } catch (error) {
+          const responseTime = Date.now() - startTime;
+          return requests.map(() => createErrorResponse(rpcClient.getUrl(), error, responseTime));
+        }
+      }),
+    );
+
+    return requests.map((_, index) =>
+      this.buildResult<T>(
+        responsesByProvider.map((responses) => responses[index] as RPCProviderResponse),
+        timestamp,
+      ),
+    );
+  }
+
+  /**
+   * True once the quorum agrees or can no longer be reached by the pending providers
+   */
+  private isDecided(responses: (RPCProviderResponse | undefined)[], settled: number): boolean {
+    const largest = Math.max(0, ...this.groupResponses(responses).map((group) => group.length));
+    const pending = this.rpcClients.length - settled;
+    return largest >= this.quorum || largest + pending < this.quorum;
+  }
+
+  /**
+   * Group successful responses by hash, largest group first
+   */
+  private groupResponses(responses: (RPCProviderResponse | undefined)[]): RPCProviderResponse[][] {
+    const groups = new Map<string, RPCProviderResponse[]>();
+    for (const response of responses) {
+      if (response?.status !== "success") {
+        continue;
+      }
+      const hash = response.hash ?? "";
+      groups.set(hash, [...(groups.get(hash) ?? []), response]);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Build the strategy result and consensus report from the provider responses
+   */
+  private buildResult<T>(responses: RPCProviderResponse[], timestamp: number): StrategyResult<T> {
+    const groups = this.groupResponses(responses);
+    const majority = groups[0];
+    const reached = !!majority && majority.length >= this.quorum;
+
+    const consensus: ConsensusReport = {
+      quorum: this.quorum,
+      total: this.rpcClients.length,
+      agreed: majority?.length ?? 0,
+      reached,
+      groups: groups.map((group) => ({
+        hash: group[0]?.hash ?? "",
+        providers: group.map((response) => response.url),
+        data: group[0]?.data,
+      })),
+    };
+
+    const metadata: RPCMetadata = {
+      strategy: "consensus",
+      timestamp,
+      responses,
+      hasInconsistencies: groups.length > 1,
+      differences: groups.length > 1 ? diffResponses(responses) : undefined,
+      consensus,
+    };
+
+    if (reached) {
+      return { success: true, data: majority[0]?.data as T, metadata };
+    }
+
+    return { success: false, errors: responses, metadata };
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
+  getName(): string {
+    return "consensus";
+  }
+}
@@ -1,45 +1,88 @@
-import type { RequestStrategy, StrategyResult, RPCProviderResponse } from "./strategiesTypes.js";
-import type { RpcClient } from "../RpcClient.js";
+import type {
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import { callBatch, type Transport } from "../transports/Transport.js";
+import { closeTransports, createErrorResponse, isCallerAbort } from "./strategyUtils.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type ProviderHealth,
+} from "./circuitBreaker.js";
+
+export interface FallbackStrategyOptions {
+  /** Skip providers after repeated failures; false disables the breaker */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Providers to try for each request and their order; all, as configured, by default */
+  select?: (rpcClients: Transport[]) => Transport[];
+}
 
 export class FallbackStrategy implements RequestStrategy {
-  private rpcClients: RpcClient[];
-  constructor(rpcClients: RpcClient[]) {
+  private rpcClients: Transport[];
+  private breakers?: CircuitBreaker[];
+  private select: (rpcClients: Transport[]) => Transport[];
+  constructor(rpcClients: Transport[], options: FallbackStrategyOptions = {}) {
     if (rpcClients.length === 0) {
       throw new Error("At least one RPC client must be provided");
     }
     this.rpcClients = rpcClients;
+    this.select = options.select ?? ((clients) => clients);
+    if (options.circuitBreaker !== false) {
+      const breakerOptions = options.circuitBreaker ?? {};
+      this.breakers = rpcClients.map(
+        (rpcClient) => new CircuitBreaker(rpcClient.getUrl(), breakerOptions),
+      );
+    }
   }
 
   /**
    * Execute request with automatic fallback
-   * Tries each RPC client sequentially until one succeeds
+   * Tries each RPC client sequentially until one succeeds, skipping providers
+   * whose circuit is open
+   * Stops early if the caller's signal is aborted
    */
 
-  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
-  async execute<T>(method: string, params: any[]): Promise<StrategyResult<T>> {
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
     const errors: RPCProviderResponse[] = [];
 
-    // Try each RPC client in order
-    for (const rpcClient of this.rpcClients) {
+    // Try each available RPC client in order
+    const bypassBreakers = this.allCircuitsOpen();
+    for (const rpcClient of this.select(this.rpcClients)) {
+      const index = this.rpcClients.indexOf(rpcClient);
+      if (options?.signal?.aborted) {
+        break;
+      }
+      if (!this.acquire(index, bypassBreakers)) {
+        continue;
+      }
+
       const startTime = Date.now();
       try {
-        const data = await rpcClient.call<T>(method, params);
+        const data = await rpcClient.call<T>(method, params, options);
+        const responseTime = Date.now() - startTime;
+        this.recordOutcome(index, responseTime, undefined, options);
 
         return {
           success: true,
           data,
-          // No metadata in fallback mode - we don't track which provider responded
-          metadata: undefined,
+          metadata: this.buildMetadata(timestamp, [
+            ...errors,
+            { url: rpcClient.getUrl(), status: "success", responseTime, data },
+          ]),
         };
       } catch (error) {
         const responseTime = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        errors.push({
-          url: rpcClient.getUrl(),
-          status: "error",
-          responseTime,
-          error: errorMessage,
-        });
+        this.recordOutcome(index, responseTime, error, options);
+        errors.push(createErrorResponse(rpcClient.getUrl(), error, responseTime));
         // Continue to next RPC client
       }
     }
@@ -48,9 +91,144 @@ export class FallbackStrategy implements RequestStrategy {
     return {
       success: false,
       errors,
+      metadata: this.buildMetadata(timestamp, errors),
+    };
+  }
+
+  /**
+   * Execute a batch with automatic fallback
+   * Sends the whole batch to the first provider, then retries only the
+   * items that failed on each subsequent provider
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const timestamp = Date.now();
+    const results: (StrategyResult<T> | undefined)[] = requests.map(() => undefined);
+    const errors: RPCProviderResponse[][] = requests.map(() => []);
+    let pending = requests.map((_, index) => index);
+
+    const bypassBreakers = this.allCircuitsOpen();
+    for (const rpcClient of this.select(this.rpcClients)) {
+      const clientIndex = this.rpcClients.indexOf(rpcClient);
+      if (pending.length === 0 || options?.signal?.aborted) {
+        break;
+      }
+      if (!this.acquire(clientIndex, bypassBreakers)) {
+        continue;
+      }
+
+      const batch = pending.map((index) => requests[index] as BatchRequest);
+      const startTime = Date.now();
+      try {
+        const items = await callBatch<T>(rpcClient, batch, options);
+        const responseTime = Date.now() - startTime;
+        const failed: number[] = [];
+        // The provider is healthy unless every item failed for a provider reason
+        const firstError = items.find((item) => item.success)
+          ? undefined
+          : items.find((item) => item.error)?.error;
+        this.recordOutcome(clientIndex, responseTime, firstError, options);
+
+        items.forEach((item, position) => {
+          const index = pending[position] as number;
+          if (item.success) {
+            results[index] = {
+              success: true,
+              data: item.data,
+              metadata: this.buildMetadata(timestamp, [
+                ...(errors[index] ?? []),
+                { url: rpcClient.getUrl(), status: "success", responseTime, data: item.data },
+              ]),
+            };
+          } else {
+            errors[index]?.push(createErrorResponse(rpcClient.getUrl(), item.error, responseTime));
+            failed.push(index);
+          }
+        });
+
+        pending = failed;
+      } catch (error) {
+        // The whole batch failed on this provider - every pending item moves on
+        const responseTime = Date.now() - startTime;
+        this.recordOutcome(clientIndex, responseTime, error, options);
+        for (const index of pending) {
+          errors[index]?.push(createErrorResponse(rpcClient.getUrl(), error, responseTime));
+        }
+      }
+    }
+
+    return results.map(
+      (result, index) =>
+        result ?? {
+          success: false,
+          errors: errors[index],
+          metadata: this.buildMetadata(timestamp, errors[index] ?? []),
+        },
+    );
+  }
+
+  /**
+   * Metadata listing the attempts in the order they were made
+   * The last response is the one returned when the request succeeded
+   */
+  private buildMetadata(timestamp: number, responses: RPCProviderResponse[]): RPCMetadata {
+    const last = responses[responses.length - 1];
+    return {
+      strategy: "fallback",
+      timestamp,
+      responses,
+      hasInconsistencies: false,
+      respondedBy: last?.status === "success" ? last.url : undefined,
     };
   }
 
+  /**
+   * Health and circuit state of every provider, in configured order
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.breakers?.map((breaker) => breaker.getHealth()) ?? [];
+  }
+
+  /**
+   * True when every provider's circuit is open
+   * Providers are then tried anyway rather than failing without a request
+   */
+  private allCircuitsOpen(): boolean {
+    return !!this.breakers && !this.breakers.some((breaker) => breaker.isAvailable());
+  }
+
+  /**
+   * Check the provider's circuit before sending it a request
+   */
+  private acquire(index: number, bypassBreakers: boolean): boolean {
+    const breaker = this.breakers?.[index];
+    return !breaker || bypassBreakers || breaker.tryAcquire();
+  }
+
+  private recordOutcome(
+    index: number,
+    responseTime: number,
+    error: unknown,
+    options?: RequestOptions,
+  ): void {
+    if (error !== undefined && isCallerAbort(options)) {
+      this.breakers?.[index]?.release();
+      return;
+    }
+    this.breakers?.[index]?.record(responseTime, error);
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
   getName(): string {
     return "fallback";
   }
@@ -0,0 +1,183 @@
+import type {
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { RequestOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import {
+  closeTransports,
+  createErrorResponse,
+  createLinkedSignal,
+  isCallerAbort,
+} from "./strategyUtils.js";
+import { type ProviderScore, ProviderStatsTracker } from "./providerStats.js";
+
+export interface HedgedStrategyOptions {
+  /** Fixed milliseconds to wait before each hedge; overrides hedgePercentile */
+  hedgeDelay?: number;
+  /** Latency percentile of the provider being waited on, used as the hedge delay (default 95) */
+  hedgePercentile?: number;
+  /** Hedge delay in milliseconds until the provider has latency samples (default 500) */
+  initialHedgeDelay?: number;
+  /** Extra requests sent to the next providers while waiting (default 1) */
+  maxHedges?: number;
+  /** Tracker to read and record latencies, e.g. one shared with a parallel strategy */
+  stats?: ProviderStatsTracker;
+}
+
+export class HedgedStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  private stats: ProviderStatsTracker;
+  private hedgeDelay?: number;
+  private hedgePercentile: number;
+  private initialHedgeDelay: number;
+  private maxHedges: number;
+  constructor(rpcClients: Transport[], options: HedgedStrategyOptions = {}) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    this.rpcClients = rpcClients;
+    this.stats = options.stats ?? new ProviderStatsTracker();
+    this.hedgeDelay = options.hedgeDelay;
+    this.hedgePercentile = options.hedgePercentile ?? 95;
+    this.initialHedgeDelay = options.initialHedgeDelay ?? 500;
+    this.maxHedges = Math.max(0, options.maxHedges ?? 1);
+  }
+
+  /**
+   * Execute request on the best provider, hedging to the next ones when slow
+   * If no response arrives within the hedge delay, the same request is sent
+   * to the next provider and the first success wins; a failure moves on to
+   * the next provider at once without using up a hedge
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
+    const ranked = this.stats.rank(this.rpcClients, (rpcClient) => rpcClient.getUrl());
+    const { signal, cancel, cleanup } = createLinkedSignal(options?.signal);
+
+    let winner: { url: string; data: T } | undefined;
+
+    // Responses in the order the requests were sent
+    const responses = await new Promise<RPCProviderResponse[]>((resolve) => {
+      const responses: (RPCProviderResponse | undefined)[] = [];
+      let hedges = 0;
+      let pending = 0;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        if (pending === 0) {
+          clearTimeout(hedgeTimer);
+          resolve(responses as RPCProviderResponse[]);
+        }
+      };
+
+      const send = () => {
+        clearTimeout(hedgeTimer);
+        const rpcClient = ranked[responses.length];
+        if (winner || !rpcClient || signal.aborted) {
+          finish();
+          return;
+        }
+
+        const index = responses.length;
+        responses.push(undefined);
+        pending++;
+
+        if (hedges < this.maxHedges && index + 1 < ranked.length) {
+          hedgeTimer = setTimeout(() => {
+            hedges++;
+            send();
+          }, this.getHedgeDelay(rpcClient.getUrl()));
+        }
+
+        const startTime = Date.now();
+        rpcClient.call<T>(method, params, { ...options, signal }).then(
+          (data) => {
+            responses[index] = {
+              url: rpcClient.getUrl(),
+              status: "success",
+              responseTime: Date.now() - startTime,
+              data,
+            };
+            pending--;
+            if (!winner) {
+              winner = { url: rpcClient.getUrl(), data };
+              clearTimeout(hedgeTimer);
+              cancel("another provider responded first");
+            }
+            finish();
+          },
+          (error) => {
+            const responseTime = Date.now() - startTime;
+            responses[index] = winner
+              ? { url: rpcClient.getUrl(), status: "cancelled", responseTime }
+              : createErrorResponse(rpcClient.getUrl(), error, responseTime);
+            pending--;
+            if (winner) {
+              finish();
+            } else {
+              send();
+            }
+          },
+        );
+      };
+
+      send();
+    });
+    cleanup();
+
+    if (!isCallerAbort(options)) {
+      this.stats.recordResponses(responses);
+    }
+
+    const metadata: RPCMetadata = {
+      strategy: "hedged",
+      timestamp,
+      responses,
+      hasInconsistencies: false,
+      respondedBy: winner?.url,
+    };
+
+    if (winner) {
+      return { success: true, data: winner.data, metadata };
+    }
+
+    return { success: false, errors: responses, metadata };
+  }
+
+  /**
+   * Milliseconds to wait on a provider before hedging
+   */
+  private getHedgeDelay(url: string): number {
+    return (
+      this.hedgeDelay ??
+      this.stats.getLatencyPercentile(url, this.hedgePercentile) ??
+      this.initialHedgeDelay
+    );
+  }
+
+  /**
+   * Scores of every provider, best first
+   */
+  getProviderScores(): ProviderScore[] {
+    return this.stats
+      .rank(this.rpcClients, (rpcClient) => rpcClient.getUrl())
+      .map((rpcClient) => this.stats.getScore(rpcClient.getUrl()));
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
+  getName(): string {
+    return "hedged";
+  }
+}
@@ -0,0 +1,264 @@
+import type {
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { RequestOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import { RpcError } from "../RpcErrors.js";
+import { closeTransports, createErrorResponse, isCallerAbort } from "./strategyUtils.js";
+
+/**
+ * Share of traffic and limits for one provider
+ */
+export interface ProviderBudget {
+  /** Relative share of requests (default 1); 0 only receives fallback traffic */
+  weight?: number;
+  /** Maximum requests sent in any one-second window */
+  requestsPerSecond?: number;
+  /** Maximum credits spent per calendar month (UTC) */
+  monthlyCredits?: number;
+}
+
+export interface LoadBalancedStrategyOptions {
+  /** Budgets keyed by provider URL; unlisted providers get weight 1 and no limits */
+  providers?: Record<string, ProviderBudget>;
+  /** Credits charged per method, e.g. compute units (default 1 for every method) */
+  methodCredits?: Record<string, number>;
+}
+
+/**
+ * Usage counters of one provider
+ */
+export interface ProviderUsage {
+  url: string;
+  weight: number;
+  /** Requests sent since the strategy was created */
+  requests: number;
+  /** Requests that failed since the strategy was created */
+  failures: number;
+  /** Current calendar month (UTC) as YYYY-MM */
+  month: string;
+  /** Credits spent in the current month */
+  monthlyCredits: number;
+  monthlyCreditLimit?: number;
+  /** Requests sent in the last second */
+  requestsLastSecond: number;
+  requestsPerSecondLimit?: number;
+  /** True when a limit currently keeps the provider from receiving requests */
+  exhausted: boolean;
+}
+
+interface ProviderState {
+  budget: ProviderBudget;
+  weight: number;
+  /** Smooth weighted round-robin counter */
+  currentWeight: number;
+  requests: number;
+  failures: number;
+  month: string;
+  monthlyCredits: number;
+  /** Send times within the last second */
+  recent: number[];
+}
+
+export class LoadBalancedStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  private providers: ProviderState[];
+  private methodCredits: Record<string, number>;
+  constructor(rpcClients: Transport[], options: LoadBalancedStrategyOptions = {}) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    this.rpcClients = rpcClients;
+    this.methodCredits = options.methodCredits ?? {};
+    this.providers = rpcClients.map((rpcClient) => {
+      const budget = options.providers?.[rpcClient.getUrl()] ?? {};
+      return {
+        budget,
+        weight: Math.max(0, budget.weight ?? 1),
+        currentWeight: 0,
+        requests: 0,
+        failures: 0,
+        month: monthOf(Date.now()),
+        monthlyCredits: 0,
+        recent: [],
+      };
+    });
+  }
+
+  /**
+   * Execute request on the provider picked by weighted round-robin
+   * Providers over budget are skipped; when the picked provider fails, the
+   * remaining providers with budget left are tried in configured order
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
+    const credits = this.methodCredits[method] ?? 1;
+    const order = this.selectOrder(credits, timestamp);
+
+    if (order.length === 0) {
+      const errors = this.rpcClients.map((rpcClient) =>
+        createErrorResponse(
+          rpcClient.getUrl(),
+          new RpcError("Request budget exhausted", rpcClient.getUrl()),
+          0,
+        ),
+      );
+      return { success: false, errors, metadata: this.buildMetadata(timestamp, errors) };
+    }
+
+    const errors: RPCProviderResponse[] = [];
+    for (const index of order) {
+      const rpcClient = this.rpcClients[index] as Transport;
+      if (options?.signal?.aborted) {
+        break;
+      }
+      // Budgets may have been used up by concurrent requests since the order was picked
+      if (!this.hasBudget(index, credits, Date.now())) {
+        continue;
+      }
+
+      this.charge(index, credits, Date.now());
+      const startTime = Date.now();
+      try {
+        const data = await rpcClient.call<T>(method, params, options);
+        const responseTime = Date.now() - startTime;
+
+        return {
+          success: true,
+          data,
+          metadata: this.buildMetadata(timestamp, [
+            ...errors,
+            { url: rpcClient.getUrl(), status: "success", responseTime, data },
+          ]),
+        };
+      } catch (error) {
+        if (!isCallerAbort(options)) {
+          (this.providers[index] as ProviderState).failures++;
+        }
+        errors.push(createErrorResponse(rpcClient.getUrl(), error, Date.now() - startTime));
+      }
+    }
+
+    return { success: false, errors, metadata: this.buildMetadata(timestamp, errors) };
+  }
+
+  /**
+   * Usage counters of every provider, in configured order
+   */
+  getProviderUsage(): ProviderUsage[] {
+    const now = Date.now();
+    return this.rpcClients.map((rpcClient, index) => {
+      const provider = this.refresh(index, now);
+      return {
+        url: rpcClient.getUrl(),
+        weight: provider.weight,
+        requests: provider.requests,
+        failures: provider.failures,
+        month: provider.month,
+        monthlyCredits: provider.monthlyCredits,
+        monthlyCreditLimit: provider.budget.monthlyCredits,
+        requestsLastSecond: provider.recent.length,
+        requestsPerSecondLimit: provider.budget.requestsPerSecond,
+        exhausted: !this.hasBudget(index, 1, now),
+      };
+    });
+  }
+
+  /**
+   * Provider indexes to try: the weighted round-robin pick, then the other
+   * providers with budget left in configured order
+   */
+  private selectOrder(credits: number, now: number): number[] {
+    const eligible = this.providers
+      .map((_, index) => index)
+      .filter((index) => this.hasBudget(index, credits, now));
+
+    // Smooth weighted round-robin among providers with a weight
+    let picked: number | undefined;
+    let totalWeight = 0;
+    for (const index of eligible) {
+      const provider = this.providers[index] as ProviderState;
+      if (provider.weight === 0) continue;
+      provider.currentWeight += provider.weight;
+      totalWeight += provider.weight;
+      if (
+        picked === undefined ||
+        provider.currentWeight > (this.providers[picked] as ProviderState).currentWeight
+      ) {
+        picked = index;
+      }
+    }
+    if (picked === undefined) {
+      return eligible;
+    }
+
+    (this.providers[picked] as ProviderState).currentWeight -= totalWeight;
+    return [picked, ...eligible.filter((index) => index !== picked)];
+  }
+
+  private hasBudget(index: number, credits: number, now: number): boolean {
+    const provider = this.refresh(index, now);
+    const { requestsPerSecond, monthlyCredits } = provider.budget;
+    if (requestsPerSecond !== undefined && provider.recent.length >= requestsPerSecond) {
+      return false;
+    }
+    if (monthlyCredits !== undefined && provider.monthlyCredits + credits > monthlyCredits) {
+      return false;
+    }
+    return true;
+  }
+
+  private charge(index: number, credits: number, now: number): void {
+    const provider = this.refresh(index, now);
+    provider.requests++;
+    provider.monthlyCredits += credits;
+    provider.recent.push(now);
+  }
+
+  /**
+   * Drop sends older than a second and reset the credits when a new month starts
+   */
+  private refresh(index: number, now: number): ProviderState {
+    const provider = this.providers[index] as ProviderState;
+    provider.recent = provider.recent.filter((sentAt) => now - sentAt < 1000);
+    const month = monthOf(now);
+    if (month !== provider.month) {
+      provider.month = month;
+      provider.monthlyCredits = 0;
+    }
+    return provider;
+  }
+
+  private buildMetadata(timestamp: number, responses: RPCProviderResponse[]): RPCMetadata {
+    const last = responses[responses.length - 1];
+    return {
+      strategy: "balanced",
+      timestamp,
+      responses,
+      hasInconsistencies: false,
+      respondedBy: last?.status === "success" ? last.url : undefined,
+    };
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
+  getName(): string {
+    return "balanced";
+  }
+}
+
+function monthOf(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
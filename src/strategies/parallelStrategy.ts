@@ -4,33 +4,90 @@ import type {
   RPCProviderResponse,
   RPCMetadata,
 } from "./strategiesTypes.js";
-import type { RpcClient } from "../RpcClient.js";
+import type { BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import { callBatch, type Transport } from "../transports/Transport.js";
+import { closeTransports, createErrorResponse, isCallerAbort } from "./strategyUtils.js";
+import { hashResponse } from "./responseComparison.js";
+import {
+  type ComparisonPolicy,
+  ComparisonPolicyRegistry,
+  compareResponses,
+} from "./comparisonPolicies.js";
+import {
+  type BlockPinMode,
+  type PinnedBlock,
+  hasLatestTag,
+  pinParams,
+  resolvePinnedBlock,
+} from "./blockPinning.js";
+import type { ProviderStatsTracker } from "./providerStats.js";
+
+export interface ParallelStrategyOptions {
+  /** Registry to use, or policies that override the defaults per method */
+  comparisonPolicies?: ComparisonPolicyRegistry | Record<string, ComparisonPolicy>;
+  /** Rewrite "latest" block tags to a block every provider has before fanning out */
+  pinBlock?: BlockPinMode;
+  /** Tracker to record every provider's response time into, e.g. one shared with a hedged strategy */
+  stats?: ProviderStatsTracker;
+  /** Providers to query for each request; all of them by default */
+  select?: (rpcClients: Transport[]) => Transport[];
+}
 
 export class ParallelStrategy implements RequestStrategy {
-  private rpcClients: RpcClient[];
-  constructor(rpcClients: RpcClient[]) {
+  private rpcClients: Transport[];
+  private comparisonPolicies: ComparisonPolicyRegistry;
+  private pinBlock?: BlockPinMode;
+  private stats?: ProviderStatsTracker;
+  private select: (rpcClients: Transport[]) => Transport[];
+  constructor(rpcClients: Transport[], options: ParallelStrategyOptions = {}) {
     if (rpcClients.length === 0) {
       throw new Error("At least one RPC client must be provided");
     }
     this.rpcClients = rpcClients;
+
+    const { comparisonPolicies } = options;
+    if (comparisonPolicies instanceof ComparisonPolicyRegistry) {
+      this.comparisonPolicies = comparisonPolicies;
+    } else {
+      this.comparisonPolicies = new ComparisonPolicyRegistry();
+      for (const method of Object.keys(comparisonPolicies ?? {})) {
+        this.comparisonPolicies.register(method, comparisonPolicies?.[method] as ComparisonPolicy);
+      }
+    }
+    this.pinBlock = options.pinBlock;
+    this.stats = options.stats;
+    this.select = options.select ?? ((clients) => clients);
   }
 
   /**
    * Execute request in parallel across all RPC clients
    * Returns all responses with metadata including response times, hashes, and inconsistency detection
+   * With pinBlock set, "latest" block tags are first rewritten to a common block
    */
 
-  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
-  async execute<T>(method: string, params: any[]): Promise<StrategyResult<T>> {
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
     const timestamp = Date.now();
+    const rpcClients = this.select(this.rpcClients);
+
+    const pinnedBlock = hasLatestTag(method, params)
+      ? await this.resolvePin(rpcClients, options)
+      : undefined;
+    if (pinnedBlock) {
+      params = pinParams(params, pinnedBlock.number);
+    }
 
     // Create promises for all RPC clients
-    const promises = this.rpcClients.map(async (rpcClient) => {
+    const promises = rpcClients.map(async (rpcClient) => {
       const startTime = Date.now();
       try {
-        const data = await rpcClient.call<T>(method, params);
+        const data = await rpcClient.call<T>(method, params, options);
         const responseTime = Date.now() - startTime;
-        const hash = this.hashResponse(data as object);
+        const hash = hashResponse(data);
 
         return {
           url: rpcClient.getUrl(),
@@ -41,14 +98,7 @@ export class ParallelStrategy implements RequestStrategy {
         };
       } catch (error) {
         const responseTime = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-
-        return {
-          url: rpcClient.getUrl(),
-          status: "error" as const,
-          responseTime,
-          error: errorMessage,
-        };
+        return createErrorResponse(rpcClient.getUrl(), error, responseTime);
       }
     });
 
@@ -61,21 +111,106 @@ export class ParallelStrategy implements RequestStrategy {
         return result.value;
       } else {
         // Promise itself rejected (shouldn't happen since we catch errors inside)
-        const rpcClient = this.rpcClients[index];
-        return {
-          url: rpcClient?.getUrl() || "unknown",
-          status: "error" as const,
-          responseTime: 0,
-          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
-        };
+        const rpcClient = rpcClients[index];
+        return createErrorResponse(rpcClient?.getUrl() || "unknown", result.reason, 0);
       }
     });
+    this.recordStats(responses, options);
+
+    return this.buildResult<T>(method, responses, timestamp, pinnedBlock);
+  }
+
+  /**
+   * Execute a batch in parallel across all RPC clients
+   * Each provider receives the whole batch; results are regrouped per item so
+   * every item gets its own responses, hashes and inconsistency detection
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const timestamp = Date.now();
+    const rpcClients = this.select(this.rpcClients);
 
+    // Pin once for the whole batch so every item sees the same block
+    const latestItems = requests.map((request) =>
+      hasLatestTag(request.method, request.params ?? []),
+    );
+    const pinnedBlock = latestItems.some(Boolean)
+      ? await this.resolvePin(rpcClients, options)
+      : undefined;
+    if (pinnedBlock) {
+      requests = requests.map((request, index) =>
+        latestItems[index]
+          ? { ...request, params: pinParams(request.params ?? [], pinnedBlock.number) }
+          : request,
+      );
+    }
+
+    // One array of per-item responses for each RPC client
+    const promises = rpcClients.map(async (rpcClient): Promise<RPCProviderResponse[]> => {
+      const startTime = Date.now();
+      try {
+        const items = await callBatch<T>(rpcClient, requests, options);
+        const responseTime = Date.now() - startTime;
+
+        return items.map((item) =>
+          item.success
+            ? {
+                url: rpcClient.getUrl(),
+                status: "success" as const,
+                responseTime,
+                data: item.data,
+                hash: hashResponse(item.data),
+              }
+            : createErrorResponse(rpcClient.getUrl(), item.error, responseTime),
+        );
+      } catch (error) {
+        // The whole batch failed on this provider - record the failure for every item
+        const responseTime = Date.now() - startTime;
+        return requests.map(() => createErrorResponse(rpcClient.getUrl(), error, responseTime));
+      }
+    });
+
+    const responsesByProvider = await Promise.all(promises);
+    // Every item of a provider shares one response time
+    this.recordStats(
+      responsesByProvider.map((responses) => responses[0] as RPCProviderResponse),
+      options,
+    );
+
+    return requests.map((request, index) =>
+      this.buildResult<T>(
+        request.method,
+        responsesByProvider.map((responses) => responses[index] as RPCProviderResponse),
+        timestamp,
+        latestItems[index] ? pinnedBlock : undefined,
+      ),
+    );
+  }
+
+  /**
+   * Build the strategy result from the responses of all providers
+   */
+  private buildResult<T>(
+    method: string,
+    responses: RPCProviderResponse[],
+    timestamp: number,
+    pinnedBlock?: PinnedBlock,
+  ): StrategyResult<T> {
     // Check if at least one request succeeded
     const hasSuccess = responses.some((r) => r.status === "success");
 
-    // Detect inconsistencies by comparing hashes
-    const hasInconsistencies = this.detectInconsistencies(responses);
+    // Detect inconsistencies using the method's comparison policy
+    const { hasInconsistencies, differences } = compareResponses(
+      responses,
+      this.comparisonPolicies.get(method),
+    );
 
     // Build metadata with ALL responses
     const metadata: RPCMetadata = {
@@ -83,6 +218,9 @@ export class ParallelStrategy implements RequestStrategy {
       timestamp,
       responses,
       hasInconsistencies,
+      differences,
+      pinnedBlock,
+      allResponses: true,
     };
 
     if (hasSuccess) {
@@ -102,43 +240,27 @@ export class ParallelStrategy implements RequestStrategy {
     };
   }
 
-  /**
-   * Generate a hash of the response for comparison
-   * Uses a simple string-based hash for browser compatibility
-   */
-  private hashResponse(data: object): string {
-    try {
-      const normalized = JSON.stringify(data, Object.keys(data).sort());
-      // Simple hash function for comparison (not cryptographic)
-      let hash = 0;
-      for (let i = 0; i < normalized.length; i++) {
-        const char = normalized.charCodeAt(i);
-        hash = (hash << 5) - hash + char;
-        hash = hash & hash; // Convert to 32-bit integer
-      }
-      return hash.toString(36);
-    } catch (_error) {
-      // If hashing fails, return empty string
-      return "";
+  private recordStats(responses: RPCProviderResponse[], options?: RequestOptions): void {
+    if (!isCallerAbort(options)) {
+      this.stats?.recordResponses(responses);
     }
   }
 
   /**
-   * Detect inconsistencies by comparing response hashes
+   * Resolve the block to pin to, if pinning is enabled
    */
-  private detectInconsistencies(responses: RPCProviderResponse[]): boolean {
-    const successfulResponses = responses.filter((r) => r.status === "success" && r.hash);
-
-    if (successfulResponses.length <= 1) {
-      // Need at least 2 successful responses to compare
-      return false;
+  private async resolvePin(
+    rpcClients: Transport[],
+    options?: RequestOptions,
+  ): Promise<PinnedBlock | undefined> {
+    if (!this.pinBlock) {
+      return undefined;
     }
+    return resolvePinnedBlock(rpcClients, this.pinBlock, options);
+  }
 
-    // Get the first hash as reference
-    const referenceHash = successfulResponses[0]?.hash;
-
-    // Check if all hashes match the reference
-    return successfulResponses.some((r) => r.hash !== referenceHash);
+  close(): void {
+    closeTransports(this.rpcClients);
   }
 
   getName(): string {
@@ -0,0 +1,144 @@
+import { isProviderFailure } from "./circuitBreaker.js";
+import type { RPCProviderResponse } from "./strategiesTypes.js";
+
+export interface ProviderStatsOptions {
+  /** Weight of the newest sample in the moving averages, from 0 to 1 (default 0.3) */
+  alpha?: number;
+  /** Milliseconds added to the score per unit of error rate (default 5000) */
+  errorPenalty?: number;
+  /** Recent latencies kept per provider for percentiles (default 100) */
+  windowSize?: number;
+}
+
+/**
+ * Moving averages for one provider
+ */
+export interface ProviderScore {
+  url: string;
+  /** EWMA of successful response times in milliseconds, undefined until measured */
+  latency?: number;
+  /** EWMA of failures, from 0 to 1 */
+  errorRate: number;
+  /** Requests recorded so far */
+  samples: number;
+  /** Ranking score, lower is better: latency plus a penalty for errors */
+  score: number;
+}
+
+interface Stats {
+  latency?: number;
+  errorRate: number;
+  samples: number;
+  recent: number[];
+}
+
+const DEFAULT_OPTIONS: Required<ProviderStatsOptions> = {
+  alpha: 0.3,
+  errorPenalty: 5000,
+  windowSize: 100,
+};
+
+/**
+ * Per-provider latency and error statistics keyed by provider URL
+ * Can be shared between strategies so they learn from the same traffic
+ */
+export class ProviderStatsTracker {
+  private options: Required<ProviderStatsOptions>;
+  private stats = new Map<string, Stats>();
+
+  constructor(options: ProviderStatsOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record the outcome of a request
+   * Deterministic JSON-RPC errors still prove the provider answered, so they
+   * count as successes
+   */
+  record(url: string, responseTime: number, error?: unknown): void {
+    const stats = this.getStats(url);
+    const failed = error !== undefined && isProviderFailure(error);
+    const { alpha, windowSize } = this.options;
+
+    stats.samples++;
+    stats.errorRate = alpha * (failed ? 1 : 0) + (1 - alpha) * stats.errorRate;
+    if (!failed) {
+      stats.latency =
+        stats.latency === undefined
+          ? responseTime
+          : alpha * responseTime + (1 - alpha) * stats.latency;
+      stats.recent.push(responseTime);
+      if (stats.recent.length > windowSize) {
+        stats.recent.shift();
+      }
+    }
+  }
+
+  /**
+   * Record every attempt listed in strategy metadata
+   * Cancelled requests carry no signal and are skipped
+   */
+  recordResponses(responses: RPCProviderResponse[]): void {
+    for (const response of responses) {
+      if (response.status === "cancelled") {
+        continue;
+      }
+      this.record(
+        response.url,
+        response.responseTime,
+        response.status === "success" ? undefined : (response.rpcError ?? response.error),
+      );
+    }
+  }
+
+  /**
+   * Score of a provider; providers without samples score 0 so they get tried
+   */
+  getScore(url: string): ProviderScore {
+    const stats = this.stats.get(url);
+    const latency = stats?.latency;
+    const errorRate = stats?.errorRate ?? 0;
+    return {
+      url,
+      latency,
+      errorRate,
+      samples: stats?.samples ?? 0,
+      score: (latency ?? 0) + errorRate * this.options.errorPenalty,
+    };
+  }
+
+  /**
+   * Latency percentile over the recent successful responses of a provider
+   * @param p - Percentile from 0 to 100
+   * @returns Latency in milliseconds, or undefined without samples
+   */
+  getLatencyPercentile(url: string, p: number): number | undefined {
+    const recent = this.stats.get(url)?.recent ?? [];
+    if (recent.length === 0) {
+      return undefined;
+    }
+    const sorted = [...recent].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+
+  /**
+   * Sort items by their provider's score, best first
+   * Ties keep the given order
+   */
+  rank<T>(items: T[], getUrl: (item: T) => string): T[] {
+    return items
+      .map((item, index) => ({ item, index, score: this.getScore(getUrl(item)).score }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  private getStats(url: string): Stats {
+    let stats = this.stats.get(url);
+    if (!stats) {
+      stats = { errorRate: 0, samples: 0, recent: [] };
+      this.stats.set(url, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,188 @@
+import type {
+  RequestStrategy,
+  StrategyResult,
+  RPCProviderResponse,
+  RPCMetadata,
+} from "./strategiesTypes.js";
+import type { BatchItemResult, BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import { callBatch, type Transport } from "../transports/Transport.js";
+import { closeTransports, createErrorResponse, createLinkedSignal } from "./strategyUtils.js";
+
+export interface RaceStrategyOptions {
+  /** Race only the first N providers (default all) */
+  maxProviders?: number;
+}
+
+export class RaceStrategy implements RequestStrategy {
+  private rpcClients: Transport[];
+  private maxProviders: number;
+  constructor(rpcClients: Transport[], options: RaceStrategyOptions = {}) {
+    if (rpcClients.length === 0) {
+      throw new Error("At least one RPC client must be provided");
+    }
+    this.rpcClients = rpcClients;
+    this.maxProviders = Math.max(1, options.maxProviders ?? rpcClients.length);
+  }
+
+  /**
+   * Execute request on the raced providers at once
+   * Resolves with the first successful response and cancels the other requests;
+   * fails only when every raced provider fails
+   */
+
+  async execute<T>(
+    method: string,
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>> {
+    const timestamp = Date.now();
+    const racers = this.rpcClients.slice(0, this.maxProviders);
+    const { signal, cancel, cleanup } = createLinkedSignal(options?.signal);
+
+    let winner: { url: string; data: T } | undefined;
+
+    const responses = await new Promise<RPCProviderResponse[]>((resolve) => {
+      const responses: (RPCProviderResponse | undefined)[] = racers.map(() => undefined);
+      let settled = 0;
+
+      racers.forEach(async (rpcClient, index) => {
+        const startTime = Date.now();
+        let response: RPCProviderResponse;
+        try {
+          const data = await rpcClient.call<T>(method, params, { ...options, signal });
+          response = {
+            url: rpcClient.getUrl(),
+            status: "success",
+            responseTime: Date.now() - startTime,
+            data,
+          };
+          if (!winner) {
+            winner = { url: rpcClient.getUrl(), data };
+            cancel("another provider responded first");
+          }
+        } catch (error) {
+          response = this.createLoserResponse(rpcClient, error, startTime, !!winner);
+        }
+
+        responses[index] = response;
+        if (++settled === racers.length) {
+          resolve(responses as RPCProviderResponse[]);
+        }
+      });
+    });
+    cleanup();
+
+    const metadata: RPCMetadata = {
+      strategy: "race",
+      timestamp,
+      responses,
+      hasInconsistencies: false,
+      respondedBy: winner?.url,
+    };
+
+    if (winner) {
+      return { success: true, data: winner.data, metadata };
+    }
+
+    return { success: false, errors: responses, metadata };
+  }
+
+  /**
+   * Execute a batch on the raced providers at once
+   * Each item resolves with the first provider that answered it successfully;
+   * the remaining requests are cancelled once every item has a winner
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async executeBatch<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const timestamp = Date.now();
+    const racers = this.rpcClients.slice(0, this.maxProviders);
+    const { signal, cancel, cleanup } = createLinkedSignal(options?.signal);
+
+    const winners: (string | undefined)[] = requests.map(() => undefined);
+    const data: (T | undefined)[] = requests.map(() => undefined);
+    let remaining = requests.length;
+
+    const responsesByProvider = await Promise.all(
+      racers.map(async (rpcClient): Promise<RPCProviderResponse[]> => {
+        const startTime = Date.now();
+        let items: BatchItemResult<T>[];
+        try {
+          items = await callBatch<T>(rpcClient, requests, { ...options, signal });
+        } catch (error) {
+          const response = this.createLoserResponse(rpcClient, error, startTime, remaining === 0);
+          return requests.map(() => response);
+        }
+
+        const responseTime = Date.now() - startTime;
+        return items.map((item, index) => {
+          if (!item.success) {
+            return createErrorResponse(rpcClient.getUrl(), item.error, responseTime);
+          }
+          if (winners[index] === undefined) {
+            winners[index] = rpcClient.getUrl();
+            data[index] = item.data;
+            if (--remaining === 0) {
+              cancel("another provider responded first");
+            }
+          }
+          return {
+            url: rpcClient.getUrl(),
+            status: "success" as const,
+            responseTime,
+            data: item.data,
+          };
+        });
+      }),
+    );
+    cleanup();
+
+    return requests.map((_, index) => {
+      const responses = responsesByProvider.map(
+        (providerResponses) => providerResponses[index] as RPCProviderResponse,
+      );
+      const metadata: RPCMetadata = {
+        strategy: "race",
+        timestamp,
+        responses,
+        hasInconsistencies: false,
+        respondedBy: winners[index],
+      };
+
+      return winners[index] !== undefined
+        ? { success: true, data: data[index], metadata }
+        : { success: false, errors: responses, metadata };
+    });
+  }
+
+  /**
+   * Response recorded for a provider that failed or lost the race
+   */
+  private createLoserResponse(
+    rpcClient: Transport,
+    error: unknown,
+    startTime: number,
+    cancelled: boolean,
+  ): RPCProviderResponse {
+    const responseTime = Date.now() - startTime;
+    if (cancelled) {
+      return { url: rpcClient.getUrl(), status: "cancelled", responseTime };
+    }
+    return createErrorResponse(rpcClient.getUrl(), error, responseTime);
+  }
+
+  close(): void {
+    closeTransports(this.rpcClients);
+  }
+
+  getName(): string {
+    return "race";
+  }
+}
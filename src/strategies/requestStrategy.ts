@@ -1,34 +1,204 @@
 import type { RequestStrategy } from "./strategiesTypes.js";
 import { FallbackStrategy } from "./fallbackStrategy.js";
 import { ParallelStrategy } from "./parallelStrategy.js";
-import { RpcClient } from "../RpcClient.js";
+import { RaceStrategy } from "./raceStrategy.js";
+import { ConsensusStrategy } from "./consensusStrategy.js";
+import { AdaptiveStrategy, type AdaptiveStrategyOptions } from "./adaptiveStrategy.js";
+import { HedgedStrategy, type HedgedStrategyOptions } from "./hedgedStrategy.js";
+import { LoadBalancedStrategy, type LoadBalancedStrategyOptions } from "./loadBalancedStrategy.js";
+import { BroadcastStrategy } from "./broadcastStrategy.js";
+import type { RpcClientOptions } from "../RpcClientTypes.js";
+import type { Transport } from "../transports/Transport.js";
+import { TransportFactory } from "../transports/TransportFactory.js";
+import type { CircuitBreakerOptions } from "./circuitBreaker.js";
+import type { ProviderStatsTracker } from "./providerStats.js";
+import type { ComparisonPolicy, ComparisonPolicyRegistry } from "./comparisonPolicies.js";
+import type { BlockPinMode } from "./blockPinning.js";
+import type { WebSocketTransportOptions } from "../transports/WebSocketTransport.js";
+import type { ResponseCacheOptions } from "../cache/ResponseCache.js";
+
+/**
+ * Strategy names and the strategy each one creates
+ * Custom strategies extend it with declaration merging, and add their config
+ * fields by merging into StrategyConfig:
+ *
+ *   declare module "explorer-network-connectors" {
+ *     interface StrategyTypes { quorumRead: QuorumReadStrategy }
+ *     interface StrategyConfig { quorumRead?: { minAgreement: number } }
+ *   }
+ */
+export interface StrategyTypes {
+  fallback: FallbackStrategy;
+  parallel: ParallelStrategy;
+  race: RaceStrategy;
+  consensus: ConsensusStrategy;
+  adaptive: AdaptiveStrategy;
+  hedged: HedgedStrategy;
+  balanced: LoadBalancedStrategy;
+  broadcast: BroadcastStrategy;
+}
+
+export type StrategyType = keyof StrategyTypes;
+
+/**
+ * Creates a strategy from the provider transports and the full config
+ */
+export type StrategyBuilder<S = RequestStrategy> = (
+  rpcClients: Transport[],
+  config: StrategyConfig,
+) => S;
 
 export interface StrategyConfig {
-  type: "fallback" | "parallel";
+  type: StrategyType;
+  /** Provider URLs; the scheme picks the transport (http(s)://, ws(s)://, ipc://) */
   rpcUrls: string[];
+  /** Pre-built transports (e.g. EIP-1193 or mock), used after those created from rpcUrls */
+  transports?: Transport[];
+  /** Default timeout in milliseconds for each provider request */
+  timeout?: number;
+  /** Coalesce concurrent calls to each provider into JSON-RPC batches */
+  batch?: RpcClientOptions["batch"];
+  /** Retry rate-limited and other transient failures on each HTTP provider before moving on */
+  retry?: RpcClientOptions["retry"];
+  /** Circuit breaker for the fallback strategy; false always tries every provider */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Per-method comparison policies for parallel fan-out, merged over the defaults */
+  comparisonPolicies?: ComparisonPolicyRegistry | Record<string, ComparisonPolicy>;
+  /** Parallel fan-out: pin "latest" block tags to a common head, safe or finalized block */
+  pinBlock?: BlockPinMode;
+  /** Number of providers raced by the race strategy, in configured order (default all) */
+  raceProviders?: number;
+  /** Providers that must agree for the consensus strategy (default: a strict majority) */
+  quorum?: number;
+  /**
+   * Latency and error stats recorded by the parallel, adaptive and hedged
+   * strategies, e.g. so hedge delays follow the latencies a parallel route saw;
+   * adaptive.stats and hedge.stats take precedence
+   */
+  stats?: ProviderStatsTracker;
+  /** Scoring, mode and background pings for the adaptive strategy */
+  adaptive?: Omit<AdaptiveStrategyOptions, "parallel">;
+  /** Hedge delay and maximum hedges for the hedged strategy */
+  hedge?: HedgedStrategyOptions;
+  /** Weights, budgets and method credits for the balanced strategy */
+  balance?: LoadBalancedStrategyOptions;
+  /**
+   * Per-method strategies keyed by method name or prefix pattern ("debug_*"),
+   * used by NetworkClient; unlisted methods use this config
+   * e.g. { eth_sendRawTransaction: { type: "broadcast" } }
+   */
+  routes?: Record<string, MethodRoute>;
+  /** Send eth_sendRawTransaction and node_sendTx to every provider with the broadcast strategy */
+  broadcastTransactions?: boolean;
+  /** Cache immutable responses (historical blocks, mined transactions) in NetworkClient */
+  cache?: boolean | ResponseCacheOptions;
+  /** Share one request among concurrent identical calls in NetworkClient (default false) */
+  dedupe?: boolean | DedupeOptions;
+  /** WebSocket endpoint used for eth_subscribe subscriptions */
+  wsUrl?: string;
+  /** Options for WebSocket connections, both providers and subscriptions */
+  wsOptions?: WebSocketTransportOptions;
+}
+
+/**
+ * Strategy and providers for the methods matching a route
+ * Unset fields are inherited from the client config; setting rpcUrls or
+ * transports replaces the client's providers, e.g. with archive nodes only
+ */
+export type MethodRoute = Partial<
+  Omit<StrategyConfig, "routes" | "cache" | "dedupe" | "wsUrl" | "wsOptions">
+>;
+
+/**
+ * Coalescing of concurrent identical calls
+ * Calls with the same method and canonical params made while one is in
+ * flight share its request instead of being sent again; each caller gets its
+ * own copy of the StrategyResult
+ */
+export interface DedupeOptions {
+  /** Methods or "prefix*" patterns never coalesced, on top of NON_IDEMPOTENT_METHODS */
+  exclude?: string[];
 }
 
 export class StrategyFactory {
+  private static builders: Record<string, StrategyBuilder | undefined> = {
+    fallback: (rpcClients, config) =>
+      new FallbackStrategy(rpcClients, { circuitBreaker: config.circuitBreaker }),
+    parallel: (rpcClients, config) =>
+      new ParallelStrategy(rpcClients, {
+        comparisonPolicies: config.comparisonPolicies,
+        pinBlock: config.pinBlock,
+        stats: config.stats,
+      }),
+    race: (rpcClients, config) =>
+      new RaceStrategy(rpcClients, { maxProviders: config.raceProviders }),
+    consensus: (rpcClients, config) => new ConsensusStrategy(rpcClients, { quorum: config.quorum }),
+    adaptive: (rpcClients, config) =>
+      new AdaptiveStrategy(rpcClients, {
+        ...config.adaptive,
+        stats: config.adaptive?.stats ?? config.stats,
+        parallel: { comparisonPolicies: config.comparisonPolicies, pinBlock: config.pinBlock },
+      }),
+    hedged: (rpcClients, config) =>
+      new HedgedStrategy(rpcClients, {
+        ...config.hedge,
+        stats: config.hedge?.stats ?? config.stats,
+      }),
+    balanced: (rpcClients, config) => new LoadBalancedStrategy(rpcClients, config.balance),
+    broadcast: (rpcClients) => new BroadcastStrategy(rpcClients),
+  };
+
+  /**
+   * Register a strategy type, or replace a built-in one
+   * The name must be declared in StrategyTypes for configs to accept it
+   * @param name - Strategy type used in StrategyConfig.type
+   * @param builder - Creates the strategy from the provider transports and config
+   */
+  static register<K extends StrategyType>(
+    name: K,
+    builder: StrategyBuilder<StrategyTypes[K]>,
+  ): void {
+    StrategyFactory.builders[name] = builder as StrategyBuilder;
+  }
+
   /**
-   * Create a request strategy with multiple RPC clients
-   * @param config - Strategy configuration with type and RPC URLs
+   * Create a request strategy with multiple provider transports
+   * @param config - Strategy configuration with type and RPC URLs or transports
+   * @param urlTransports - Transports already created for config.rpcUrls, e.g. by
+   * a client that reuses and closes them itself; created from the URLs by default
    * @returns Configured request strategy
    */
-  static create(config: StrategyConfig): RequestStrategy {
-    if (!config.rpcUrls || config.rpcUrls.length === 0) {
+  static create(config: StrategyConfig, urlTransports?: Transport[]): RequestStrategy {
+    const transports = config.transports ?? [];
+    if ((!config.rpcUrls || config.rpcUrls.length === 0) && transports.length === 0) {
       throw new Error("At least one RPC URL must be provided");
     }
+    const builder = StrategyFactory.builders[config.type];
+    if (!builder) {
+      throw new Error(`Unknown strategy type: ${config.type}`);
+    }
 
-    // Create RPC clients for each URL
-    const rpcClients = config.rpcUrls.map((urlConfig) => new RpcClient(urlConfig));
+    const rpcClients = [
+      ...(urlTransports ?? StrategyFactory.createTransports(config)),
+      ...transports,
+    ];
 
-    switch (config.type) {
-      case "fallback":
-        return new FallbackStrategy(rpcClients);
-      case "parallel":
-        return new ParallelStrategy(rpcClients);
-      default:
-        throw new Error(`Unknown strategy type: ${config.type}`);
-    }
+    return builder(rpcClients, config);
+  }
+
+  /**
+   * Create a transport for each RPC URL of a config based on its scheme
+   * @param config - Strategy configuration with RPC URLs and transport options
+   * @returns One transport per URL, in configured order
+   */
+  static createTransports(config: StrategyConfig): Transport[] {
+    return (config.rpcUrls ?? []).map((url) =>
+      TransportFactory.create(url, {
+        timeout: config.timeout,
+        batch: config.batch,
+        retry: config.retry,
+        wsOptions: config.wsOptions,
+      }),
+    );
   }
 }
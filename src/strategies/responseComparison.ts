@@ -0,0 +1,157 @@
+import type { ResponseDifference, RPCProviderResponse } from "./strategiesTypes.js";
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+
+// Cap on reported differences so one bad provider cannot bloat the metadata
+const MAX_DIFFERENCES = 50;
+
+/**
+ * Normalize a response so equivalent answers compare equal
+ * Hex strings are lowercased and stripped of leading zeros (so "0x0A" and
+ * "0xa" match); object keys are sorted at every level
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export function canonicalize(value: any): any {
+  if (typeof value === "string") {
+    return HEX_PATTERN.test(value) ? normalizeHex(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === "object") {
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    const sorted: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) {
+        sorted[key] = canonicalize(value[key]);
+      }
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Deterministic JSON serialization of the canonical form of a value
+ */
+export function canonicalStringify(value: unknown): string {
+  return JSON.stringify(canonicalize(value)) ?? "undefined";
+}
+
+/**
+ * Hash the canonical form of a response for comparison
+ * 106-bit non-cryptographic hash (two independently seeded 53-bit lanes),
+ * implemented without dependencies for browser compatibility
+ */
+export function hashResponse(data: unknown): string {
+  const serialized = canonicalStringify(data);
+  return (
+    hash53(serialized, 0).toString(16).padStart(14, "0") +
+    hash53(serialized, 0x9e3779b9).toString(16).padStart(14, "0")
+  );
+}
+
+/**
+ * List the JSON paths where successful provider responses disagree
+ * Each difference groups the providers by the value they returned, in canonical
+ * form; a value of undefined means the field was missing from that provider's response
+ */
+export function diffResponses(responses: RPCProviderResponse[]): ResponseDifference[] {
+  const successful = responses.filter((response) => response.status === "success");
+  if (successful.length <= 1) {
+    return [];
+  }
+
+  const differences: ResponseDifference[] = [];
+  collectDifferences(
+    "$",
+    successful.map((response) => ({ url: response.url, value: canonicalize(response.data) })),
+    differences,
+  );
+  return differences;
+}
+
+interface ProviderValue {
+  url: string;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  value: any;
+}
+
+function collectDifferences(
+  path: string,
+  values: ProviderValue[],
+  differences: ResponseDifference[],
+): void {
+  if (differences.length >= MAX_DIFFERENCES) {
+    return;
+  }
+
+  const serialized = values.map(({ value }) => JSON.stringify(value));
+  if (serialized.every((entry) => entry === serialized[0])) {
+    return;
+  }
+
+  // Descend while every provider returned the same container type
+  if (values.every(({ value }) => Array.isArray(value))) {
+    const length = Math.max(...values.map(({ value }) => value.length));
+    for (let index = 0; index < length; index++) {
+      collectDifferences(
+        `${path}[${index}]`,
+        values.map(({ url, value }) => ({ url, value: value[index] })),
+        differences,
+      );
+    }
+    return;
+  }
+  if (values.every(({ value }) => isPlainObject(value))) {
+    const keys = new Set<string>();
+    for (const { value } of values) {
+      for (const key of Object.keys(value)) keys.add(key);
+    }
+    for (const key of Array.from(keys).sort()) {
+      collectDifferences(
+        `${path}.${key}`,
+        values.map(({ url, value }) => ({ url, value: value[key] })),
+        differences,
+      );
+    }
+    return;
+  }
+
+  const variants = new Map<string, ResponseDifference["variants"][number]>();
+  values.forEach(({ url, value }, index) => {
+    const key = serialized[index] ?? "undefined";
+    const variant = variants.get(key);
+    if (variant) {
+      variant.providers.push(url);
+    } else {
+      variants.set(key, { value, providers: [url] });
+    }
+  });
+  differences.push({ path, variants: Array.from(variants.values()) });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function normalizeHex(value: string): string {
+  const digits = value.slice(2).toLowerCase().replace(/^0+/, "");
+  return `0x${digits || "0"}`;
+}
+
+// cyrb53 string hash
+function hash53(input: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
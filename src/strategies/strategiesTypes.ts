@@ -1,17 +1,101 @@
+import type { BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import type { RpcError } from "../RpcErrors.js";
+import type { ProviderHealth } from "./circuitBreaker.js";
+import type { PinnedBlock } from "./blockPinning.js";
+import type { ProviderScore } from "./providerStats.js";
+import type { ProviderUsage } from "./loadBalancedStrategy.js";
+import type { StrategyType } from "./requestStrategy.js";
+
 export interface RPCMetadata {
-  strategy: "parallel" | "fallback";
+  /** Name of the strategy that produced the result, including registered custom ones */
+  strategy: StrategyType;
   timestamp: number;
   responses: RPCProviderResponse[];
   hasInconsistencies: boolean;
+  /** True when data holds every provider response instead of one value (parallel, adaptive in parallel mode) */
+  allResponses?: boolean;
+  /** JSON paths where successful responses disagreed, when hasInconsistencies is true */
+  differences?: ResponseDifference[];
+  /** URL of the provider whose response was returned (fallback, race, adaptive, hedged, balanced) */
+  respondedBy?: string;
+  /** Block that "latest" params were rewritten to before querying (parallel with pinBlock) */
+  pinnedBlock?: PinnedBlock;
+  /** Agreement between providers (consensus) */
+  consensus?: ConsensusReport;
+  /** Which providers accepted a submitted transaction (broadcast) */
+  broadcast?: BroadcastReport;
+}
+
+/**
+ * A JSON path (e.g. "$.transactions[0].gas") where providers returned different values
+ */
+export interface ResponseDifference {
+  path: string;
+  /** Distinct values at the path; value is undefined when the field was missing */
+  variants: {
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    value: any;
+    providers: string[];
+  }[];
+}
+
+/**
+ * How the providers' answers compared against the required quorum
+ */
+export interface ConsensusReport {
+  /** Providers that had to agree */
+  quorum: number;
+  /** Providers queried */
+  total: number;
+  /** Providers in the largest agreeing group */
+  agreed: number;
+  reached: boolean;
+  /** Distinct answers, largest group first */
+  groups: ConsensusGroup[];
+}
+
+export interface ConsensusGroup {
+  hash: string;
+  /** URLs of the providers that returned this answer */
+  providers: string[];
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  data: any;
+}
+
+/**
+ * Outcome of submitting a transaction to every provider
+ */
+export interface BroadcastReport {
+  /** Hash returned by the first accepting provider, lowercased */
+  txHash?: string;
+  /** Providers that accepted the transaction or already knew it */
+  accepted: number;
+  /** Providers the transaction was sent to */
+  total: number;
+  /** True when accepting providers returned different tx hashes */
+  hashMismatch: boolean;
+  providers: BroadcastAcceptance[];
+}
+
+export interface BroadcastAcceptance {
+  url: string;
+  /** "known" when the provider already had the transaction */
+  status: "accepted" | "known" | "rejected";
+  txHash?: string;
+  /** Rejection message */
+  error?: string;
 }
 
 export interface RPCProviderResponse {
   url: string;
-  status: "success" | "error";
+  /** "cancelled" when the request was aborted because another provider answered first */
+  status: "success" | "error" | "timeout" | "cancelled";
   responseTime: number;
   // biome-ignore lint/suspicious/noExplicitAny: <TODO>
   data?: any;
   error?: string;
+  /** Structured error (HTTP, JSON-RPC, revert, timeout, network, invalid response) */
+  rpcError?: RpcError;
   hash?: string;
 }
 
@@ -28,11 +112,51 @@ export interface RequestStrategy {
    *
    * @param method - The RPC method name (e.g., "eth_getBlockByNumber")
    * @param params - The RPC method parameters
+   * @param options - Optional abort signal and timeout forwarded to every provider request
    * @returns Strategy result with data and optional metadata
    */
 
   // biome-ignore lint/suspicious/noExplicitAny: <TODO>
-  execute<T>(method: string, params: any[]): Promise<StrategyResult<T>>;
+  execute<T>(method: string, params: any[], options?: RequestOptions): Promise<StrategyResult<T>>;
+
+  /**
+   * Execute several RPC requests as JSON-RPC batches
+   * Optional: callers fall back to one execute() per request when absent
+   *
+   * @param requests - The calls to send
+   * @param options - Optional abort signal and timeout forwarded to every provider request
+   * @returns One strategy result per request, in request order
+   */
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  executeBatch?<T = any>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<StrategyResult<T>[]>;
+
+  /**
+   * Release connections held by the strategy's transports
+   * Optional: strategies without long-lived connections may omit it
+   */
+  close?(): void;
+
+  /**
+   * Health and circuit state of each provider
+   * Optional: only strategies that track provider health implement it
+   */
+  getProviderHealth?(): ProviderHealth[];
+
+  /**
+   * Latency and error rate moving averages of each provider, best first
+   * Optional: only strategies that rank providers implement it
+   */
+  getProviderScores?(): ProviderScore[];
+
+  /**
+   * Requests, failures and budget usage of each provider
+   * Optional: only strategies that enforce budgets implement it
+   */
+  getProviderUsage?(): ProviderUsage[];
 
   /**
    * Get the strategy name for logging/debugging
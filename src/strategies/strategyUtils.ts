@@ -0,0 +1,83 @@
+import type { RequestOptions } from "../RpcClientTypes.js";
+import { RpcTimeoutError, toRpcError } from "../RpcErrors.js";
+import type { Transport } from "../transports/Transport.js";
+import type { RPCProviderResponse } from "./strategiesTypes.js";
+
+/**
+ * Build the provider response recorded for a failed request
+ * Keeps the message in `error` and the structured error in `rpcError`
+ */
+export function createErrorResponse(
+  url: string,
+  error: unknown,
+  responseTime: number,
+): RPCProviderResponse {
+  const rpcError = toRpcError(error, url);
+
+  return {
+    url,
+    status: rpcError instanceof RpcTimeoutError ? "timeout" : "error",
+    responseTime,
+    error: rpcError.message,
+    rpcError,
+  };
+}
+
+/**
+ * Whether the caller cancelled the request
+ * Such a request says nothing about the providers, so strategies leave it out
+ * of their breakers and latency stats
+ */
+export function isCallerAbort(options?: RequestOptions): boolean {
+  return options?.signal?.aborted === true;
+}
+
+/**
+ * Close every provider transport of a strategy
+ */
+export function closeTransports(transports: Transport[]): void {
+  for (const transport of transports) {
+    transport.close();
+  }
+}
+
+/**
+ * Abort signal for a group of provider requests
+ * Aborted when the caller's signal aborts or when the strategy cancels the
+ * remaining requests because it already has its answer
+ */
+export function createLinkedSignal(callerSignal?: AbortSignal) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onAbort();
+  }
+  callerSignal?.addEventListener("abort", onAbort);
+
+  return {
+    signal: controller.signal,
+    cancel: (reason: string) => controller.abort(new Error(`Cancelled: ${reason}`)),
+    cleanup: () => callerSignal?.removeEventListener("abort", onAbort),
+  };
+}
+
+/**
+ * Find the value registered for a method by name or by prefix pattern ("debug_*")
+ * Exact method names win over patterns; longer patterns win over shorter ones
+ */
+export function matchMethod<T>(entries: Map<string, T>, method: string): T | undefined {
+  const exact = entries.get(method);
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  let match: { length: number; value: T } | undefined;
+  entries.forEach((value, pattern) => {
+    if (!pattern.endsWith("*")) return;
+    const prefix = pattern.slice(0, -1);
+    if (method.startsWith(prefix) && (!match || prefix.length > match.length)) {
+      match = { length: prefix.length, value };
+    }
+  });
+  return match?.value;
+}
@@ -0,0 +1,63 @@
+import type { RequestOptions } from "../RpcClientTypes.js";
+import { createJsonRpcError, RpcError, toRpcError } from "../RpcErrors.js";
+import { withRequestOptions, type Transport } from "./Transport.js";
+
+/**
+ * Provider object as specified by EIP-1193 (e.g. window.ethereum)
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+}
+
+export interface Eip1193TransportOptions {
+  /** Identifier reported in strategy metadata (default "eip1193://provider") */
+  url?: string;
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Transport backed by an EIP-1193 provider such as an injected wallet
+ */
+export class Eip1193Transport implements Transport {
+  private provider: Eip1193Provider;
+  private url: string;
+  private timeout?: number;
+
+  constructor(provider: Eip1193Provider, options: Eip1193TransportOptions = {}) {
+    this.provider = provider;
+    this.url = options.url ?? "eip1193://provider";
+    this.timeout = options.timeout;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async call<T>(method: string, params: any[] = [], options: RequestOptions = {}): Promise<T> {
+    return withRequestOptions(
+      async () => {
+        try {
+          return (await this.provider.request({ method, params })) as T;
+        } catch (error) {
+          // EIP-1193 providers reject with { code, message, data } objects or errors
+          const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+          if (!(error instanceof RpcError) && typeof code === "number") {
+            throw createJsonRpcError(
+              { code, message: String(message), data: (error as { data?: unknown }).data },
+              this.url,
+            );
+          }
+          throw toRpcError(error, this.url);
+        }
+      },
+      this.url,
+      { ...options, timeout: options.timeout ?? this.timeout },
+    );
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  close(): void {
+    // The provider's lifecycle is owned by the caller
+  }
+}
@@ -0,0 +1,185 @@
+import type { Socket } from "node:net";
+import type { JsonRpcRequest, JsonRpcResponse, RequestOptions } from "../RpcClientTypes.js";
+import { createJsonRpcError, NetworkError } from "../RpcErrors.js";
+import { withRequestOptions, type Transport } from "./Transport.js";
+
+export interface IpcTransportOptions {
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+}
+
+interface PendingCall {
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * JSON-RPC over a Unix domain socket (or Windows named pipe) to a local node
+ * Accepts "ipc:///path/to/node.ipc" or a plain path. Node.js only: node:net is
+ * loaded lazily so browser bundles that never open an IPC transport are unaffected.
+ */
+export class IpcTransport implements Transport {
+  private url: string;
+  private path: string;
+  private requestId: number = 0;
+  private timeout?: number;
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private buffer = "";
+  private scan = { index: 0, depth: 0, start: 0, inString: false, escaped: false };
+  private pending = new Map<number | string, PendingCall>();
+
+  constructor(url: string, options: IpcTransportOptions = {}) {
+    this.url = url;
+    this.path = url.startsWith("ipc://") ? url.slice("ipc://".length) : url;
+    this.timeout = options.timeout;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async call<T>(method: string, params: any[] = [], options: RequestOptions = {}): Promise<T> {
+    const request: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      params,
+    };
+
+    try {
+      return await withRequestOptions(
+        async () => {
+          const socket = await this.connect();
+          return new Promise<T>((resolve, reject) => {
+            this.pending.set(request.id, { resolve, reject });
+            socket.write(`${JSON.stringify(request)}\n`);
+          });
+        },
+        this.url,
+        { ...options, timeout: options.timeout ?? this.timeout },
+      );
+    } finally {
+      this.pending.delete(request.id);
+    }
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = undefined;
+    this.rejectPending(new NetworkError(`IPC connection to ${this.path} closed`, this.url));
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const { createConnection } = await import("node:net");
+
+    return new Promise<Socket>((resolve, reject) => {
+      const socket = createConnection(this.path);
+      socket.setEncoding("utf8");
+
+      socket.once("connect", () => {
+        this.socket = socket;
+        this.buffer = "";
+        this.scan = { index: 0, depth: 0, start: 0, inString: false, escaped: false };
+        resolve(socket);
+      });
+      socket.on("data", (chunk: string) => this.handleData(chunk));
+      socket.once("error", (error) =>
+        reject(new NetworkError(`Network error: ${error.message}`, this.url, error)),
+      );
+      socket.once("close", () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        this.rejectPending(new NetworkError(`IPC connection to ${this.path} closed`, this.url));
+      });
+    });
+  }
+
+  /**
+   * Nodes stream JSON values without a reliable delimiter, so split the
+   * buffer on balanced top-level objects and arrays. Scanner state is kept
+   * between chunks so large responses are only scanned once.
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    const scan = this.scan;
+    let consumed = 0;
+
+    for (let i = scan.index; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (scan.inString) {
+        if (scan.escaped) {
+          scan.escaped = false;
+        } else if (char === "\\") {
+          scan.escaped = true;
+        } else if (char === '"') {
+          scan.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        scan.inString = true;
+      } else if (char === "{" || char === "[") {
+        if (scan.depth === 0) {
+          scan.start = i;
+        }
+        scan.depth++;
+      } else if (char === "}" || char === "]") {
+        scan.depth--;
+        if (scan.depth === 0) {
+          this.handleMessage(this.buffer.slice(scan.start, i + 1));
+          consumed = i + 1;
+        }
+      }
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    scan.index = this.buffer.length;
+    scan.start = Math.max(0, scan.start - consumed);
+  }
+
+  private handleMessage(raw: string): void {
+    let message: JsonRpcResponse;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(createJsonRpcError(message.error, this.url));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    const calls = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const call of calls) {
+      call.reject(error);
+    }
+  }
+}
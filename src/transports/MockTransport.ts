@@ -0,0 +1,79 @@
+import type { RequestOptions } from "../RpcClientTypes.js";
+import { JSON_RPC_ERROR_CODES, JsonRpcError } from "../RpcErrors.js";
+import { withRequestOptions, type Transport } from "./Transport.js";
+
+/**
+ * Computes the result of a mocked call; throw to simulate an RPC error
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <TODO>
+export type MockHandler = (method: string, params: any[]) => unknown | Promise<unknown>;
+
+export interface MockTransportOptions {
+  /** Identifier reported in strategy metadata (default "mock://") */
+  url?: string;
+  /** Artificial latency in milliseconds added to every call */
+  latency?: number;
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * In-memory transport for tests and offline development
+ * Accepts either a handler function or a map of method name to result
+ * (or to a function of the params)
+ */
+export class MockTransport implements Transport {
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  readonly calls: { method: string; params: any[] }[] = [];
+  private handler: MockHandler;
+  private url: string;
+  private latency: number;
+  private timeout?: number;
+
+  constructor(
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    handler: MockHandler | Record<string, unknown | ((params: any[]) => unknown)>,
+    options: MockTransportOptions = {},
+  ) {
+    this.handler =
+      typeof handler === "function"
+        ? handler
+        : (method, params) => {
+            if (!(method in handler)) {
+              throw new JsonRpcError(
+                JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+                `the method ${method} does not exist/is not available`,
+              );
+            }
+            const result = handler[method];
+            return typeof result === "function" ? result(params) : result;
+          };
+    this.url = options.url ?? "mock://";
+    this.latency = options.latency ?? 0;
+    this.timeout = options.timeout;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async call<T>(method: string, params: any[] = [], options: RequestOptions = {}): Promise<T> {
+    this.calls.push({ method, params });
+
+    return withRequestOptions(
+      async () => {
+        if (this.latency > 0) {
+          await new Promise((resolve) => setTimeout(resolve, this.latency));
+        }
+        return (await this.handler(method, params)) as T;
+      },
+      this.url,
+      { ...options, timeout: options.timeout ?? this.timeout },
+    );
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
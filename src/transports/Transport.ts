@@ -0,0 +1,115 @@
+import type { BatchItemResult, BatchRequest, RequestOptions } from "../RpcClientTypes.js";
+import { RpcTimeoutError, toRpcError } from "../RpcErrors.js";
+
+/**
+ * A connection to a single JSON-RPC provider
+ * Strategies only talk to providers through this interface, so HTTP, WebSocket,
+ * IPC, EIP-1193 and in-memory providers can be mixed in one strategy
+ */
+export interface Transport {
+  /**
+   * Send a single JSON-RPC call
+   * @throws Error when the call fails or returns a JSON-RPC error
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  call<T>(method: string, params?: any[], options?: RequestOptions): Promise<T>;
+
+  /**
+   * Send several calls in one JSON-RPC batch
+   * Optional: use callBatch() from this module to fall back to single calls
+   */
+  callBatch?<T = unknown>(
+    requests: BatchRequest[],
+    options?: RequestOptions,
+  ): Promise<BatchItemResult<T>[]>;
+
+  /**
+   * URL identifying the provider, used in strategy metadata
+   */
+  getUrl(): string;
+
+  /**
+   * Release any connection held by the transport
+   * Transports reconnect lazily if used again after closing
+   */
+  close(): void;
+}
+
+/**
+ * Send a batch through a transport, falling back to concurrent single calls
+ * when the transport has no native batch support
+ */
+export async function callBatch<T = unknown>(
+  transport: Transport,
+  requests: BatchRequest[],
+  options?: RequestOptions,
+): Promise<BatchItemResult<T>[]> {
+  // An empty JSON-RPC batch is an invalid request
+  if (requests.length === 0) {
+    return [];
+  }
+  if (transport.callBatch) {
+    return transport.callBatch<T>(requests, options);
+  }
+
+  return Promise.all(
+    requests.map(async (request): Promise<BatchItemResult<T>> => {
+      try {
+        const data = await transport.call<T>(request.method, request.params ?? [], options);
+        return { success: true, data };
+      } catch (error) {
+        return {
+          success: false,
+          error: toRpcError(error, transport.getUrl()),
+        };
+      }
+    }),
+  );
+}
+
+/**
+ * Settle a request promise early on timeout or abort
+ * Used by transports whose underlying request cannot be cancelled
+ */
+export function withRequestOptions<T>(
+  request: () => Promise<T>,
+  url: string,
+  options: RequestOptions,
+): Promise<T> {
+  const { signal, timeout } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason ?? new Error("Request aborted"));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason ?? new Error("Request aborted"));
+    };
+
+    signal?.addEventListener("abort", onAbort);
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new RpcTimeoutError(url, timeout));
+      }, timeout);
+    }
+
+    request().then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+}
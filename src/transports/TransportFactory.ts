@@ -0,0 +1,50 @@
+import { RpcClient } from "../RpcClient.js";
+import type { RpcClientOptions } from "../RpcClientTypes.js";
+import { IpcTransport } from "./IpcTransport.js";
+import type { Transport } from "./Transport.js";
+import { WebSocketTransport, type WebSocketTransportOptions } from "./WebSocketTransport.js";
+
+export interface TransportFactoryOptions {
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+  /** Micro-batching for HTTP transports */
+  batch?: RpcClientOptions["batch"];
+  /** Retry policy for HTTP transports */
+  retry?: RpcClientOptions["retry"];
+  /** Options for WebSocket transports */
+  wsOptions?: WebSocketTransportOptions;
+}
+
+export class TransportFactory {
+  /**
+   * Create a transport from a provider URL based on its scheme
+   * http(s):// uses RpcClient, ws(s):// uses WebSocketTransport, ipc:// uses IpcTransport
+   * URLs without a scheme, such as a relative "/api/rpc" proxy path, use RpcClient
+   *
+   * @param url - Provider URL
+   * @param options - Options applied to the created transport
+   * @returns Transport for the URL
+   * @throws Error if the URL scheme is not supported
+   */
+  static create(url: string, options: TransportFactoryOptions = {}): Transport {
+    const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(url)?.[1]?.toLowerCase();
+
+    switch (scheme) {
+      case undefined:
+      case "http":
+      case "https":
+        return new RpcClient(url, {
+          timeout: options.timeout,
+          batch: options.batch,
+          retry: options.retry,
+        });
+      case "ws":
+      case "wss":
+        return new WebSocketTransport(url, { timeout: options.timeout, ...options.wsOptions });
+      case "ipc":
+        return new IpcTransport(url, { timeout: options.timeout });
+      default:
+        throw new Error(`Unsupported transport URL: ${url}`);
+    }
+  }
+}
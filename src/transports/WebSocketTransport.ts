@@ -0,0 +1,392 @@
+import type { JsonRpcRequest, JsonRpcResponse, RequestOptions } from "../RpcClientTypes.js";
+import { createJsonRpcError, NetworkError, RpcTimeoutError } from "../RpcErrors.js";
+import type { Transport } from "./Transport.js";
+
+/**
+ * Minimal WebSocket surface used by the transport
+ * Satisfied by the browser/Node global WebSocket and by the `ws` package
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  onopen: ((event: any) => void) | null;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  onmessage: ((event: { data: any }) => void) | null;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  onclose: ((event: any) => void) | null;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  onerror: ((event: any) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface ReconnectOptions {
+  /** Delay before the first reconnect attempt in milliseconds (default 1000) */
+  delay?: number;
+  /** Upper bound for the exponential backoff delay in milliseconds (default 30000) */
+  maxDelay?: number;
+  /** Give up after this many consecutive failed attempts (default unlimited) */
+  maxAttempts?: number;
+}
+
+export interface WebSocketTransportOptions {
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+  /** WebSocket implementation, defaults to the global WebSocket */
+  WebSocket?: WebSocketConstructor;
+  /** Reconnect behaviour after an unexpected close, or false to disable */
+  reconnect?: ReconnectOptions | false;
+}
+
+/**
+ * Handle for an active subscription
+ * The id is assigned locally and stays the same across reconnects
+ */
+export interface Subscription {
+  id: string;
+  unsubscribe(): Promise<boolean>;
+}
+
+export type SubscriptionListener<T> = (data: T) => void;
+
+interface PendingCall {
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+interface ActiveSubscription {
+  id: string;
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  params: any[];
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  listener: SubscriptionListener<any>;
+  onError?: (error: unknown) => void;
+  serverId?: string;
+}
+
+const WS_OPEN = 1;
+
+/**
+ * JSON-RPC over WebSocket with eth_subscribe support
+ * Exposes the same call() signature as RpcClient. After an unexpected close it
+ * reconnects with exponential backoff and re-creates every active subscription.
+ */
+export class WebSocketTransport implements Transport {
+  private url: string;
+  private requestId: number = 0;
+  private timeout?: number;
+  /** Missing when the runtime has no global WebSocket; calls then fail */
+  private WebSocketImpl?: WebSocketConstructor;
+  private reconnect: Required<ReconnectOptions> | false;
+  private socket?: WebSocketLike;
+  private connecting?: Promise<WebSocketLike>;
+  private pending = new Map<number | string, PendingCall>();
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private subscriptionCount = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private closed = false;
+
+  constructor(url: string, options: WebSocketTransportOptions = {}) {
+    this.url = url;
+    this.timeout = options.timeout;
+    // Checked on connect, so one WebSocket provider cannot break a whole client
+    this.WebSocketImpl =
+      options.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    this.reconnect =
+      options.reconnect === false
+        ? false
+        : {
+            delay: options.reconnect?.delay ?? 1000,
+            maxDelay: options.reconnect?.maxDelay ?? 30_000,
+            maxAttempts: options.reconnect?.maxAttempts ?? Number.POSITIVE_INFINITY,
+          };
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  async call<T>(method: string, params: any[] = [], options: RequestOptions = {}): Promise<T> {
+    const { signal } = options;
+    const timeout = options.timeout ?? this.timeout;
+
+    if (signal?.aborted) {
+      throw signal.reason ?? new Error("Request aborted");
+    }
+
+    const socket = await this.connect();
+    const request: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      params,
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(request.id);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason ?? new Error("Request aborted"));
+      };
+
+      this.pending.set(request.id, {
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+
+      signal?.addEventListener("abort", onAbort);
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new RpcTimeoutError(this.url, timeout));
+        }, timeout);
+      }
+
+      try {
+        socket.send(JSON.stringify(request));
+      } catch {
+        // The socket started closing after connect() returned it
+        cleanup();
+        reject(new NetworkError(`WebSocket send to ${this.url} failed`, this.url));
+      }
+    });
+  }
+
+  /**
+   * Create an eth_subscribe subscription
+   *
+   * @param params - eth_subscribe parameters, e.g. ["newHeads"] or ["logs", filter]
+   * @param listener - Called with the result of every notification
+   * @param onError - Called if the subscription cannot be re-created after a reconnect
+   * @returns Handle used to unsubscribe
+   */
+  async subscribe<T>(
+    // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+    params: any[],
+    listener: SubscriptionListener<T>,
+    onError?: (error: unknown) => void,
+  ): Promise<Subscription> {
+    const subscription: ActiveSubscription = {
+      id: `${++this.subscriptionCount}`,
+      params,
+      listener,
+      onError,
+    };
+
+    subscription.serverId = await this.call<string>("eth_subscribe", params);
+    this.subscriptions.set(subscription.id, subscription);
+
+    return {
+      id: subscription.id,
+      unsubscribe: () => this.unsubscribe(subscription.id),
+    };
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   * Pending calls are rejected and subscriptions are dropped; a later call
+   * opens a new connection
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.subscriptions.clear();
+    this.rejectPending(new NetworkError("WebSocket transport closed", this.url));
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  private async unsubscribe(id: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return false;
+    }
+    this.subscriptions.delete(id);
+
+    if (!subscription.serverId || this.socket?.readyState !== WS_OPEN) {
+      return true;
+    }
+    return this.call<boolean>("eth_unsubscribe", [subscription.serverId]);
+  }
+
+  private connect(): Promise<WebSocketLike> {
+    this.closed = false;
+    if (this.socket?.readyState === WS_OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  private open(): Promise<WebSocketLike> {
+    const WebSocketImpl = this.WebSocketImpl;
+    if (!WebSocketImpl) {
+      return Promise.reject(
+        new NetworkError(
+          "No WebSocket implementation available; pass one in the options",
+          this.url,
+        ),
+      );
+    }
+
+    return new Promise<WebSocketLike>((resolve, reject) => {
+      const socket = new WebSocketImpl(this.url);
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        this.socket = socket;
+        this.reconnectAttempts = 0;
+        resolve(socket);
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new NetworkError(`WebSocket connection to ${this.url} failed`, this.url));
+        }
+      };
+      socket.onclose = () => {
+        if (!opened) {
+          reject(new NetworkError(`WebSocket connection to ${this.url} failed`, this.url));
+          return;
+        }
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        this.rejectPending(
+          new NetworkError(`WebSocket connection to ${this.url} closed`, this.url),
+        );
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+  private handleMessage(raw: any): void {
+    let message: JsonRpcResponse & { method?: string; params?: { subscription: string } };
+    try {
+      message = JSON.parse(typeof raw === "string" ? raw : raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.method === "eth_subscription" && message.params) {
+      const { subscription: serverId, result } = message.params as {
+        subscription: string;
+        // biome-ignore lint/suspicious/noExplicitAny: <TODO>
+        result: any;
+      };
+      this.subscriptions.forEach((subscription) => {
+        if (subscription.serverId === serverId) {
+          subscription.listener(result);
+        }
+      });
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+    if (message.error) {
+      pending.reject(createJsonRpcError(message.error, this.url));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    const calls = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const call of calls) {
+      call.reject(error);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || !this.reconnect || this.subscriptions.size === 0) {
+      return;
+    }
+    if (this.reconnectAttempts >= this.reconnect.maxAttempts) {
+      this.failSubscriptions(
+        new NetworkError(`WebSocket reconnect to ${this.url} gave up`, this.url),
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      this.reconnect.delay * 2 ** this.reconnectAttempts,
+      this.reconnect.maxDelay,
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(async () => {
+      // close() may have run after this timer fired but before it was cleared
+      if (this.closed) {
+        return;
+      }
+      let socket: WebSocketLike;
+      try {
+        socket = await this.connect();
+      } catch {
+        this.scheduleReconnect();
+        return;
+      }
+      if (this.closed) {
+        socket.close();
+        return;
+      }
+      await this.resubscribe();
+    }, delay);
+  }
+
+  /**
+   * Re-create every active subscription on a fresh connection
+   * Server-side ids change, the local ids handed to callers do not
+   */
+  private async resubscribe(): Promise<void> {
+    const subscriptions = Array.from(this.subscriptions.values());
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        subscription.serverId = undefined;
+        try {
+          subscription.serverId = await this.call<string>("eth_subscribe", subscription.params);
+        } catch (error) {
+          // A dropped connection triggers another reconnect that retries this subscription
+          if (this.socket?.readyState === WS_OPEN) {
+            this.subscriptions.delete(subscription.id);
+            subscription.onError?.(error);
+          }
+        }
+      }),
+    );
+  }
+
+  private failSubscriptions(error: Error): void {
+    const subscriptions = Array.from(this.subscriptions.values());
+    this.subscriptions.clear();
+    for (const subscription of subscriptions) {
+      subscription.onError?.(error);
+    }
+  }
+}
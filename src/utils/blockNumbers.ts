@@ -0,0 +1,12 @@
+/**
+ * Block number from a hex quantity or a number; false for tags and other values
+ */
+export function parseBlockNumber(value: unknown): number | false {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  if (typeof value === "string" && /^0x[0-9a-fA-F]+$/.test(value)) {
+    return Number.parseInt(value, 16);
+  }
+  return false;
+}
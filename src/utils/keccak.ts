@@ -0,0 +1,151 @@
+// Keccak-f[1600] round constants, as low and high 32-bit halves
+const ROUND_CONSTANTS = [
+  [0x00000001, 0x00000000],
+  [0x00008082, 0x00000000],
+  [0x0000808a, 0x80000000],
+  [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000],
+  [0x80000001, 0x00000000],
+  [0x80008081, 0x80000000],
+  [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000],
+  [0x00000088, 0x00000000],
+  [0x80008009, 0x00000000],
+  [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000],
+  [0x0000008b, 0x80000000],
+  [0x00008089, 0x80000000],
+  [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000],
+  [0x00000080, 0x80000000],
+  [0x0000800a, 0x00000000],
+  [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000],
+  [0x00008080, 0x80000000],
+  [0x80000001, 0x00000000],
+  [0x80008008, 0x80000000],
+] as const;
+
+// Rotation offset of each lane, indexed by x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14,
+];
+
+// Bytes absorbed per permutation for a 256-bit output
+const RATE = 136;
+
+/**
+ * Keccak-256 of hex-encoded bytes, as used for Ethereum transaction hashes
+ * This is the original Keccak padding, not the NIST SHA3-256 one
+ * @param hex - Bytes as a hex string, with or without 0x prefix
+ * @returns Lowercase 0x-prefixed hash
+ * @throws Error if the input is not valid hex
+ */
+export function keccak256(hex: string): string {
+  const digits = hex.replace(/^0x/i, "");
+  if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+    throw new Error("Invalid hex input");
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes.push(Number.parseInt(digits.slice(i, i + 2), 16));
+  }
+  // Pad with 0x01 ... 0x80 up to a multiple of the rate
+  bytes.push(0x01);
+  while (bytes.length % RATE !== 0) {
+    bytes.push(0);
+  }
+  bytes[bytes.length - 1] = (bytes[bytes.length - 1] as number) | 0x80;
+
+  // 25 lanes of 64 bits, each stored as low then high 32-bit words
+  const state = new Uint32Array(50);
+  for (let block = 0; block < bytes.length; block += RATE) {
+    for (let i = 0; i < RATE; i++) {
+      state[i >> 2] = (state[i >> 2] as number) ^ ((bytes[block + i] as number) << (8 * (i & 3)));
+    }
+    permute(state);
+  }
+
+  let hash = "0x";
+  for (let i = 0; i < 32; i++) {
+    const byte = ((state[i >> 2] as number) >>> (8 * (i & 3))) & 0xff;
+    hash += byte.toString(16).padStart(2, "0");
+  }
+  return hash;
+}
+
+function permute(state: Uint32Array): void {
+  const columns = new Uint32Array(10);
+  const lanes = new Uint32Array(50);
+
+  for (const [constantLow, constantHigh] of ROUND_CONSTANTS) {
+    // Theta: XOR every lane with the parities of two neighbouring columns
+    for (let x = 0; x < 5; x++) {
+      for (let half = 0; half < 2; half++) {
+        columns[2 * x + half] =
+          (state[2 * x + half] as number) ^
+          (state[2 * x + 10 + half] as number) ^
+          (state[2 * x + 20 + half] as number) ^
+          (state[2 * x + 30 + half] as number) ^
+          (state[2 * x + 40 + half] as number);
+      }
+    }
+    for (let x = 0; x < 5; x++) {
+      const previous = (x + 4) % 5;
+      const next = (x + 1) % 5;
+      const [low, high] = rotate(columns[2 * next] as number, columns[2 * next + 1] as number, 1);
+      const dLow = (columns[2 * previous] as number) ^ low;
+      const dHigh = (columns[2 * previous + 1] as number) ^ high;
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (x + y)] = (state[2 * (x + y)] as number) ^ dLow;
+        state[2 * (x + y) + 1] = (state[2 * (x + y) + 1] as number) ^ dHigh;
+      }
+    }
+
+    // Rho and pi: rotate each lane and move it from (x, y) to (y, 2x + 3y)
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const from = x + 5 * y;
+        const to = y + 5 * ((2 * x + 3 * y) % 5);
+        const [low, high] = rotate(
+          state[2 * from] as number,
+          state[2 * from + 1] as number,
+          ROTATIONS[from] as number,
+        );
+        lanes[2 * to] = low;
+        lanes[2 * to + 1] = high;
+      }
+    }
+
+    // Chi: combine each lane with the next two in its row
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        for (let half = 0; half < 2; half++) {
+          state[2 * (x + y) + half] =
+            (lanes[2 * (x + y) + half] as number) ^
+            (~(lanes[2 * (((x + 1) % 5) + y) + half] as number) &
+              (lanes[2 * (((x + 2) % 5) + y) + half] as number));
+        }
+      }
+    }
+
+    // Iota
+    state[0] = (state[0] as number) ^ constantLow;
+    state[1] = (state[1] as number) ^ constantHigh;
+  }
+}
+
+/**
+ * Rotate a 64-bit lane left, given as low and high 32-bit words
+ */
+function rotate(low: number, high: number, bits: number): [number, number] {
+  if (bits >= 32) {
+    [low, high] = [high, low];
+    bits -= 32;
+  }
+  if (bits === 0) {
+    return [low, high];
+  }
+  return [(low << bits) | (high >>> (32 - bits)), (high << bits) | (low >>> (32 - bits))];
+}
@@ -1,8 +1,13 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
+import WebSocket from "ws";
 import { NetworkClient } from "../src/NetworkClient.js";
 import type { StrategyConfig } from "../src/strategies/requestStrategy.js";
+import { MockTransport } from "../src/transports/MockTransport.js";
+import { NetworkError } from "../src/RpcErrors.js";
 import { isHexString } from "./helpers/validators.js";
+import { respondEach, rpcResult, startMockRpcServer } from "./helpers/mockRpcServer.js";
+import { startMockWsServer } from "./helpers/mockWsServer.js";
 
 const TEST_URLS = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -59,7 +64,8 @@ describe("NetworkClient - Execute with Fallback Strategy", () => {
     assert.strictEqual(result.success, true, "Result should be successful");
     assert.ok(result.data, "Result should have data");
     assert.ok(isHexString(result.data), "chainId should be hex string");
-    assert.strictEqual(result.metadata, undefined, "Fallback strategy should not have metadata");
+    assert.strictEqual(result.metadata?.strategy, "fallback", "Should have fallback metadata");
+    assert.ok(result.metadata?.respondedBy, "Should record the responding provider");
   });
 
   it("should execute eth_blockNumber", async () => {
@@ -238,3 +244,382 @@ describe("NetworkClient - Execute with Complex Parameters", () => {
     assert.ok(Array.isArray(result.data), "Should return array of logs");
   });
 });
+
+describe("NetworkClient - Batch Execution", () => {
+  it("should execute a batch through the configured strategy", async () => {
+    const server = await startMockRpcServer(
+      respondEach((request) => rpcResult(request, request.params[0])),
+    );
+    try {
+      const client = new NetworkClient({ type: "fallback", rpcUrls: [server.url] });
+
+      const results = await client.executeBatch<string>([
+        { method: "eth_getBlockByNumber", params: ["0x1", false] },
+        { method: "eth_getBlockByNumber", params: ["0x2", false] },
+      ]);
+
+      assert.strictEqual(server.requests.length, 1, "Should send a single HTTP request");
+      assert.deepStrictEqual(
+        results.map((r) => r.data),
+        ["0x1", "0x2"],
+        "Should return one result per request",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("NetworkClient - Provider Health", () => {
+  it("should expose provider health from the fallback strategy", async () => {
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [
+        new MockTransport(
+          () => {
+            throw new NetworkError("connection refused");
+          },
+          { url: "mock://down" },
+        ),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://up" }),
+      ],
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await client.execute("eth_chainId");
+    const health = client.getProviderHealth();
+
+    assert.deepStrictEqual(
+      health.map((provider) => [provider.url, provider.state]),
+      [
+        ["mock://down", "open"],
+        ["mock://up", "closed"],
+      ],
+    );
+  });
+
+  it("should return no health for strategies that do not track it", () => {
+    const client = new NetworkClient({
+      type: "parallel",
+      rpcUrls: [],
+      transports: [new MockTransport({ eth_chainId: "0x1" })],
+    });
+
+    assert.deepStrictEqual(client.getProviderHealth(), []);
+  });
+
+  it("should expose provider scores from the adaptive strategy", async () => {
+    const client = new NetworkClient({
+      type: "adaptive",
+      rpcUrls: [],
+      transports: [
+        new MockTransport(
+          () => {
+            throw new NetworkError("connection refused");
+          },
+          { url: "mock://down" },
+        ),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://up" }),
+      ],
+    });
+
+    await client.execute("eth_chainId");
+    const scores = client.getProviderScores();
+
+    assert.deepStrictEqual(
+      scores.map((score) => score.url),
+      ["mock://up", "mock://down"],
+    );
+    assert.ok((scores[1]?.errorRate ?? 0) > 0);
+    client.close();
+  });
+
+  it("should expose provider usage from the balanced strategy", async () => {
+    const client = new NetworkClient({
+      type: "balanced",
+      rpcUrls: [],
+      transports: [
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://a" }),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://b" }),
+      ],
+    });
+
+    await client.execute("eth_chainId");
+    await client.execute("eth_chainId");
+
+    assert.deepStrictEqual(
+      client.getProviderUsage().map((usage) => [usage.url, usage.requests]),
+      [
+        ["mock://a", 1],
+        ["mock://b", 1],
+      ],
+    );
+  });
+});
+
+describe("NetworkClient - Method Routing", () => {
+  const full = () =>
+    new MockTransport({ eth_blockNumber: "0x1", eth_call: "0x" }, { url: "mock://full" });
+  const archive = () =>
+    new MockTransport(
+      { eth_blockNumber: "0x1", debug_traceTransaction: { gas: 21000 } },
+      { url: "mock://archive" },
+    );
+
+  it("should use the route's strategy for matching methods", async () => {
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [full(), archive()],
+      routes: { eth_call: { type: "parallel" } },
+    });
+
+    const call = await client.execute("eth_call", [{}, "latest"]);
+    const blockNumber = await client.execute("eth_blockNumber");
+
+    assert.strictEqual(call.metadata?.strategy, "parallel");
+    assert.strictEqual(blockNumber.metadata?.strategy, "fallback");
+    assert.strictEqual(client.getStrategyFor("eth_call").getName(), "parallel");
+  });
+
+  it("should send routed methods to the route's providers only", async () => {
+    const fullNode = full();
+    const archiveNode = archive();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [fullNode],
+      routes: { "debug_*": { transports: [archiveNode] } },
+    });
+
+    const result = await client.execute("debug_traceTransaction", ["0xabc"]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.respondedBy, "mock://archive");
+    assert.strictEqual(fullNode.calls.length, 0);
+  });
+
+  it("should prefer exact routes over patterns", () => {
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [full()],
+      routes: {
+        "debug_*": { type: "race" },
+        debug_traceTransaction: { type: "parallel" },
+      },
+    });
+
+    assert.strictEqual(client.getStrategyFor("debug_traceTransaction").getName(), "parallel");
+    assert.strictEqual(client.getStrategyFor("debug_traceCall").getName(), "race");
+    assert.strictEqual(client.getStrategyFor("eth_call").getName(), "fallback");
+  });
+
+  it("should split batches by route and keep request order", async () => {
+    const fullNode = full();
+    const archiveNode = archive();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [fullNode],
+      routes: { "debug_*": { transports: [archiveNode] } },
+    });
+
+    const results = await client.executeBatch([
+      { method: "debug_traceTransaction", params: ["0xabc"] },
+      { method: "eth_blockNumber" },
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((result) => result.data),
+      [{ gas: 21000 }, "0x1"],
+    );
+    assert.deepStrictEqual(
+      archiveNode.calls.map((call) => call.method),
+      ["debug_traceTransaction"],
+    );
+    assert.deepStrictEqual(
+      fullNode.calls.map((call) => call.method),
+      ["eth_blockNumber"],
+    );
+  });
+
+  it("should switch routes without their own type along with the strategy", () => {
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [full()],
+      routes: { "trace_*": {}, eth_call: { type: "parallel" } },
+    });
+
+    client.updateStrategy("race");
+
+    assert.strictEqual(client.getStrategyFor("trace_block").getName(), "race");
+    assert.strictEqual(client.getStrategyFor("eth_call").getName(), "parallel");
+  });
+
+  it("should leave transports passed in by the caller open", async () => {
+    const shared = full();
+    let closed = 0;
+    shared.close = () => {
+      closed++;
+    };
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [shared],
+      routes: { "trace_*": {}, eth_call: { type: "parallel", transports: [shared] } },
+    });
+
+    client.updateStrategy("race");
+    client.close();
+
+    assert.strictEqual(closed, 0);
+  });
+
+  it("should keep its own connections open across strategy updates", async () => {
+    const server = await startMockWsServer(() => "0x1");
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [server.url],
+      wsOptions: { WebSocket: WebSocket as any },
+    });
+    try {
+      await client.execute("eth_chainId");
+      client.updateStrategy("race");
+      const result = await client.execute("eth_chainId");
+
+      assert.strictEqual(result.data, "0x1");
+      assert.strictEqual(server.connections, 1, "The connection should be reused");
+    } finally {
+      client.close();
+      await server.close();
+    }
+  });
+});
+
+describe("NetworkClient - Request Deduplication", () => {
+  const provider = () =>
+    new MockTransport(
+      {
+        eth_getBlockByNumber: ([number]: [string]) => ({ number }),
+        eth_sendRawTransaction: "0xhash",
+        eth_getFilterChanges: [],
+        personal_sign: "0xsignature",
+        nodeAdmin_setConfig: true,
+      },
+      { latency: 20 },
+    );
+
+  it("should share one request among concurrent identical calls", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      dedupe: true,
+    });
+
+    const results = await Promise.all([
+      client.execute("eth_getBlockByNumber", ["0x123", true]),
+      client.execute("eth_getBlockByNumber", ["0x123", true]),
+      client.execute("eth_getBlockByNumber", ["0x123", true]),
+    ]);
+
+    assert.strictEqual(transport.calls.length, 1);
+    assert.deepStrictEqual(results[0], results[1]);
+    assert.deepStrictEqual(results[2]?.data, { number: "0x123" });
+  });
+
+  it("should give each coalesced caller its own copy of the result", async () => {
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [provider()],
+      dedupe: true,
+    });
+
+    const [first, second] = await Promise.all([
+      client.execute<{ number: string }>("eth_getBlockByNumber", ["0x123", true]),
+      client.execute<{ number: string }>("eth_getBlockByNumber", ["0x123", true]),
+    ]);
+    (first.data as { number: string }).number = "0x0";
+
+    assert.notStrictEqual(first, second);
+    assert.deepStrictEqual(second.data, { number: "0x123" });
+  });
+
+  it("should send calls with different params or after completion", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      dedupe: true,
+    });
+
+    await Promise.all([
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+      client.execute("eth_getBlockByNumber", ["0x1", false]),
+    ]);
+    await client.execute("eth_getBlockByNumber", ["0x1", true]);
+
+    assert.strictEqual(transport.calls.length, 3);
+  });
+
+  it("should never coalesce non-idempotent or excluded methods", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      dedupe: { exclude: ["eth_getBlockByNumber"] },
+    });
+
+    await Promise.all([
+      client.execute("eth_sendRawTransaction", ["0xf86c"]),
+      client.execute("eth_sendRawTransaction", ["0xf86c"]),
+      client.execute("nodeAdmin_setConfig", [{}]),
+      client.execute("nodeAdmin_setConfig", [{}]),
+      client.execute("eth_getFilterChanges", ["0x1"]),
+      client.execute("eth_getFilterChanges", ["0x1"]),
+      client.execute("personal_sign", ["0xab", "0x1"]),
+      client.execute("personal_sign", ["0xab", "0x1"]),
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+    ]);
+
+    assert.strictEqual(transport.calls.length, 10);
+  });
+
+  it("should send calls with an abort signal on their own", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      dedupe: true,
+    });
+    const controller = new AbortController();
+
+    await Promise.all([
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+      client.execute("eth_getBlockByNumber", ["0x1", true], { signal: controller.signal }),
+    ]);
+
+    assert.strictEqual(transport.calls.length, 2);
+  });
+
+  it("should be disabled by default", async () => {
+    const transport = provider();
+    const client = new NetworkClient({ type: "fallback", rpcUrls: [], transports: [transport] });
+
+    await Promise.all([
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+      client.execute("eth_getBlockByNumber", ["0x1", true]),
+    ]);
+
+    assert.strictEqual(transport.calls.length, 2);
+  });
+});
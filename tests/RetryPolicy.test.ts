@@ -0,0 +1,172 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  getRetryDelay,
+  isRateLimitError,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from "../src/RetryPolicy.js";
+import {
+  ExecutionRevertedError,
+  HttpError,
+  InvalidResponseError,
+  JsonRpcError,
+  NetworkError,
+  RpcTimeoutError,
+} from "../src/RpcErrors.js";
+
+describe("RetryPolicy - Error Classification", () => {
+  it("should retry transient transport failures", () => {
+    assert.strictEqual(isRetryableError(new RpcTimeoutError("http://x", 100)), true);
+    assert.strictEqual(isRetryableError(new NetworkError("socket hang up")), true);
+    assert.strictEqual(isRetryableError(new HttpError(429, "")), true);
+    assert.strictEqual(isRetryableError(new HttpError(503, "")), true);
+  });
+
+  it("should retry rate-limit JSON-RPC errors", () => {
+    const limit = new JsonRpcError(-32005, "limit exceeded");
+    const message = new JsonRpcError(-32000, "Too many requests, slow down");
+
+    assert.strictEqual(isRetryableError(limit), true);
+    assert.strictEqual(isRetryableError(message), true);
+    assert.strictEqual(isRateLimitError(limit), true);
+    assert.strictEqual(isRateLimitError(new HttpError(429, "")), true);
+  });
+
+  it("should never retry deterministic errors", () => {
+    assert.strictEqual(
+      isRetryableError(new ExecutionRevertedError(3, "execution reverted")),
+      false,
+    );
+    assert.strictEqual(isRetryableError(new JsonRpcError(-32601, "method not found")), false);
+    assert.strictEqual(isRetryableError(new JsonRpcError(-32602, "invalid params")), false);
+    assert.strictEqual(isRetryableError(new HttpError(400, "")), false);
+    assert.strictEqual(isRetryableError(new InvalidResponseError("bad body")), false);
+    assert.strictEqual(isRetryableError(new Error("unknown")), false);
+  });
+});
+
+describe("RetryPolicy - Delays", () => {
+  it("should parse Retry-After seconds and dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+
+    assert.strictEqual(parseRetryAfter("2"), 2000);
+    assert.strictEqual(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT", now), 5000);
+    assert.strictEqual(parseRetryAfter("soon"), undefined);
+    assert.strictEqual(parseRetryAfter(null), undefined);
+  });
+
+  it("should back off exponentially up to maxDelay", () => {
+    const options = { initialDelay: 100, factor: 2, maxDelay: 500, jitter: false };
+    const error = new NetworkError("down");
+
+    assert.strictEqual(getRetryDelay(error, 1, options), 100);
+    assert.strictEqual(getRetryDelay(error, 2, options), 200);
+    assert.strictEqual(getRetryDelay(error, 3, options), 400);
+    assert.strictEqual(getRetryDelay(error, 4, options), 500);
+  });
+
+  it("should keep the defaults for options set to undefined", () => {
+    const options = {
+      initialDelay: undefined,
+      factor: undefined,
+      maxDelay: undefined,
+      jitter: false,
+    };
+
+    assert.strictEqual(getRetryDelay(new NetworkError("down"), 2, options), 400);
+  });
+
+  it("should keep jittered delays within the backoff", () => {
+    const delay = getRetryDelay(new NetworkError("down"), 3, { initialDelay: 100 });
+    assert.ok(delay >= 0 && delay <= 400, `Delay ${delay} should be within backoff`);
+  });
+
+  it("should prefer Retry-After over the backoff, capped at maxDelay", () => {
+    const options = { initialDelay: 100, maxDelay: 1000, jitter: false };
+
+    assert.strictEqual(getRetryDelay(new HttpError(429, "", undefined, 700), 1, options), 700);
+    assert.strictEqual(getRetryDelay(new HttpError(429, "", undefined, 60_000), 1, options), 1000);
+  });
+});
+
+describe("RetryPolicy - withRetry", () => {
+  it("should retry until the request succeeds", async () => {
+    let attempts = 0;
+    const result = await withRetry(
+      async () => {
+        attempts++;
+        if (attempts < 3) throw new HttpError(503, "");
+        return "ok";
+      },
+      { initialDelay: 1 },
+    );
+
+    assert.strictEqual(result, "ok");
+    assert.strictEqual(attempts, 3);
+  });
+
+  it("should stop after maxAttempts", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++;
+          throw new NetworkError("down");
+        },
+        { maxAttempts: 2, initialDelay: 1 },
+      ),
+      NetworkError,
+    );
+    assert.strictEqual(attempts, 2);
+  });
+
+  it("should keep retrying when maxAttempts is undefined", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++;
+          throw new NetworkError("down");
+        },
+        { maxAttempts: undefined, initialDelay: 1 },
+      ),
+      NetworkError,
+    );
+    assert.strictEqual(attempts, 3);
+  });
+
+  it("should not retry execution reverted", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++;
+          throw new ExecutionRevertedError(3, "execution reverted");
+        },
+        { maxAttempts: 5, initialDelay: 1 },
+      ),
+      ExecutionRevertedError,
+    );
+    assert.strictEqual(attempts, 1);
+  });
+
+  it("should stop waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+
+    await assert.rejects(
+      withRetry(
+        async () => {
+          throw new NetworkError("down");
+        },
+        { initialDelay: 5000, jitter: false },
+        controller.signal,
+      ),
+      /cancelled/,
+    );
+    assert.ok(Date.now() - started < 1000, "Should not wait for the backoff");
+  });
+});
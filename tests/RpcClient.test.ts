@@ -1,7 +1,22 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import { RpcClient } from "../src/RpcClient.js";
+import {
+  ExecutionRevertedError,
+  HttpError,
+  InvalidResponseError,
+  JsonRpcError,
+  NetworkError,
+  RpcTimeoutError,
+} from "../src/RpcErrors.js";
 import { isHexString } from "./helpers/validators.js";
+import {
+  never,
+  respondEach,
+  rpcError,
+  rpcResult,
+  startMockRpcServer,
+} from "./helpers/mockRpcServer.js";
 
 const TEST_URLS: string[] = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -133,3 +148,489 @@ describe("RpcClient - Type Safety", () => {
     assert.ok(Array.isArray(block.transactions), "Block should have transactions array");
   });
 });
+
+describe("RpcClient - Timeouts and Abort", () => {
+  it("should reject with RpcTimeoutError when the client timeout elapses", async () => {
+    const server = await startMockRpcServer(() => never());
+    try {
+      const client = new RpcClient(server.url, { timeout: 50 });
+
+      await assert.rejects(client.call("eth_chainId"), (error: unknown) => {
+        assert.ok(error instanceof RpcTimeoutError, "Should be a timeout error");
+        assert.strictEqual(error.timeout, 50, "Should report the timeout");
+        assert.strictEqual(error.url, server.url, "Should report the URL");
+        return true;
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should let a per-request timeout override the client default", async () => {
+    const server = await startMockRpcServer(() => never());
+    try {
+      const client = new RpcClient(server.url, { timeout: 10_000 });
+
+      await assert.rejects(client.call("eth_chainId", [], { timeout: 30 }), RpcTimeoutError);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should resolve normally when the response arrives before the timeout", async () => {
+    const server = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const client = new RpcClient(server.url, { timeout: 1_000 });
+      const result = await client.call<string>("eth_chainId");
+
+      assert.strictEqual(result, "0x1", "Should return the result");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should abort the in-flight request when the caller's signal fires", async () => {
+    const server = await startMockRpcServer(() => never());
+    try {
+      const client = new RpcClient(server.url);
+      const controller = new AbortController();
+      const pending = client.call("eth_chainId", [], { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(pending, (error: unknown) => {
+        assert.ok(!(error instanceof RpcTimeoutError), "Abort should not be reported as timeout");
+        return true;
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should not send a request when the signal is already aborted", async () => {
+    const server = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const client = new RpcClient(server.url);
+      const controller = new AbortController();
+      controller.abort();
+
+      await assert.rejects(client.call("eth_chainId", [], { signal: controller.signal }));
+      assert.strictEqual(server.requests.length, 0, "Should not reach the server");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("RpcClient - Batch Requests", () => {
+  it("should send one HTTP request and correlate responses by id", async () => {
+    // Answer in reverse order to make sure results are matched by id, not position
+    const server = await startMockRpcServer((body) =>
+      body.map((request: any) => rpcResult(request, request.method)).reverse(),
+    );
+    try {
+      const client = new RpcClient(server.url);
+      const results = await client.callBatch<string>([
+        { method: "eth_chainId" },
+        { method: "eth_blockNumber" },
+      ]);
+
+      assert.strictEqual(server.requests.length, 1, "Should send a single HTTP request");
+      assert.ok(Array.isArray(server.requests[0]), "Payload should be a JSON-RPC array");
+      assert.deepStrictEqual(
+        results.map((r) => r.data),
+        ["eth_chainId", "eth_blockNumber"],
+        "Results should follow request order",
+      );
+      assert.strictEqual(client.getRequestId(), 2, "Each item should consume a request id");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should report per-item errors without failing the batch", async () => {
+    const server = await startMockRpcServer(
+      respondEach((request) =>
+        request.method === "eth_chainId"
+          ? rpcResult(request, "0x1")
+          : rpcError(request, -32601, "Method not found"),
+      ),
+    );
+    try {
+      const client = new RpcClient(server.url);
+      const [ok, failed] = await client.callBatch([
+        { method: "eth_chainId" },
+        { method: "bad_method" },
+      ]);
+
+      assert.strictEqual(ok?.success, true, "First item should succeed");
+      assert.strictEqual(ok?.data, "0x1", "First item should have data");
+      assert.strictEqual(failed?.success, false, "Second item should fail");
+      assert.match(failed?.error?.message ?? "", /Method not found/, "Should keep the message");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should reject when the provider does not support batches", async () => {
+    const server = await startMockRpcServer(() => ({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32600, message: "Batch requests are not supported" },
+    }));
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.callBatch([{ method: "eth_chainId" }]), /not supported/);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("RpcClient - Automatic Batching", () => {
+  it("should coalesce calls issued in the same tick into one batch", async () => {
+    const server = await startMockRpcServer(respondEach((request) => rpcResult(request, "0x1")));
+    try {
+      const client = new RpcClient(server.url, { batch: true });
+
+      const results = await Promise.all([
+        client.call<string>("eth_chainId"),
+        client.call<string>("eth_blockNumber"),
+        client.call<string>("eth_gasPrice"),
+      ]);
+
+      assert.deepStrictEqual(results, ["0x1", "0x1", "0x1"], "Every call should resolve");
+      assert.strictEqual(server.requests.length, 1, "Should send a single HTTP request");
+      assert.strictEqual(server.requests[0]?.length, 3, "Batch should hold all three calls");
+      assert.strictEqual(client.getRequestId(), 3, "Each call should still get its own id");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should split batches larger than maxSize", async () => {
+    const server = await startMockRpcServer(respondEach((request) => rpcResult(request, "0x1")));
+    try {
+      const client = new RpcClient(server.url, { batch: { maxSize: 2 } });
+
+      await Promise.all([
+        client.call("eth_chainId"),
+        client.call("eth_chainId"),
+        client.call("eth_chainId"),
+      ]);
+
+      assert.strictEqual(server.requests.length, 2, "Should send two HTTP requests");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should reject only the calls whose items failed", async () => {
+    const server = await startMockRpcServer(
+      respondEach((request) =>
+        request.method === "eth_chainId"
+          ? rpcResult(request, "0x1")
+          : rpcError(request, -32601, "Method not found"),
+      ),
+    );
+    try {
+      const client = new RpcClient(server.url, { batch: true });
+
+      const [ok, failed] = await Promise.allSettled([
+        client.call("eth_chainId"),
+        client.call("bad_method"),
+      ]);
+
+      assert.strictEqual(ok.status, "fulfilled", "Good call should resolve");
+      assert.strictEqual(failed.status, "rejected", "Bad call should reject");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should fall back to single requests when the provider rejects batches", async () => {
+    const server = await startMockRpcServer((body) =>
+      Array.isArray(body)
+        ? { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Batch not supported" } }
+        : rpcResult(body, "0x1"),
+    );
+    try {
+      const client = new RpcClient(server.url, { batch: true });
+
+      const first = await Promise.all([client.call("eth_chainId"), client.call("eth_chainId")]);
+      assert.deepStrictEqual(first, ["0x1", "0x1"], "Calls should resolve via single requests");
+
+      const requestsBefore = server.requests.length;
+      await Promise.all([client.call("eth_chainId"), client.call("eth_chainId")]);
+      assert.strictEqual(
+        server.requests.length - requestsBefore,
+        2,
+        "Later calls should skip batching entirely",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should reject queued calls when the batch response is malformed", async () => {
+    const server = await startMockRpcServer(() => [null]);
+    try {
+      const client = new RpcClient(server.url, { batch: true });
+
+      const results = await Promise.allSettled([
+        client.call("eth_chainId"),
+        client.call("eth_blockNumber"),
+      ]);
+
+      for (const result of results) {
+        assert.ok(result.status === "rejected" && result.reason instanceof InvalidResponseError);
+      }
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should not resend batch items one by one when rate limited", async () => {
+    const server = await startMockRpcServer((_body, res) => {
+      res.writeHead(429, { "Content-Type": "text/plain" });
+      res.end("Too Many Requests");
+    });
+    try {
+      const client = new RpcClient(server.url, {
+        batch: true,
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () => client.call("eth_chainId")),
+      );
+
+      for (const result of results) {
+        assert.ok(result.status === "rejected" && result.reason instanceof HttpError);
+      }
+      assert.strictEqual(server.requests.length, 2, "Only the batch should be retried");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should time out a queued call without failing the rest of the batch", async () => {
+    const server = await startMockRpcServer(async (body) => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return body.map((request: any) => rpcResult(request, "0x1"));
+    });
+    try {
+      const client = new RpcClient(server.url, { batch: true });
+
+      const [fast, slow] = await Promise.allSettled([
+        client.call("eth_chainId", [], { timeout: 20 }),
+        client.call("eth_chainId"),
+      ]);
+
+      assert.strictEqual(fast.status, "rejected", "Short timeout should reject");
+      assert.ok(fast.status === "rejected" && fast.reason instanceof RpcTimeoutError);
+      assert.strictEqual(slow.status, "fulfilled", "Other call should still resolve");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("RpcClient - Structured Errors", () => {
+  it("should throw HttpError with status and body", async () => {
+    const server = await startMockRpcServer((_body, res) => {
+      res.writeHead(429, { "Content-Type": "text/plain" });
+      res.end("Too Many Requests");
+    });
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.call("eth_chainId"), (error: unknown) => {
+        assert.ok(error instanceof HttpError, "Should be an HttpError");
+        assert.strictEqual(error.status, 429, "Should keep the status");
+        assert.strictEqual(error.body, "Too Many Requests", "Should keep the body");
+        assert.strictEqual(error.url, server.url, "Should keep the URL");
+        return true;
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should throw JsonRpcError with code and data", async () => {
+    const server = await startMockRpcServer((body) =>
+      rpcError(body, -32601, "Method not found", { hint: "nope" }),
+    );
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.call("foo_bar"), (error: unknown) => {
+        assert.ok(error instanceof JsonRpcError, "Should be a JsonRpcError");
+        assert.strictEqual(error.code, -32601, "Should keep the code");
+        assert.deepStrictEqual(error.data, { hint: "nope" }, "Should keep the data");
+        assert.strictEqual(error.isMethodNotFound, true, "Should flag unsupported methods");
+        return true;
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should throw ExecutionRevertedError with revert data", async () => {
+    const revertData = "0x08c379a0";
+    const server = await startMockRpcServer((body) =>
+      rpcError(body, 3, "execution reverted: not owner", revertData),
+    );
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.call("eth_call", [{}, "latest"]), (error: unknown) => {
+        assert.ok(error instanceof ExecutionRevertedError, "Should be a revert");
+        assert.ok(error instanceof JsonRpcError, "Reverts are JSON-RPC errors");
+        assert.strictEqual(error.revertData, revertData, "Should expose revert data");
+        return true;
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should throw InvalidResponseError for non-JSON bodies", async () => {
+    const server = await startMockRpcServer((_body, res) => {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<html>gateway</html>");
+    });
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.call("eth_chainId"), InvalidResponseError);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should throw NetworkError when the provider is unreachable", async () => {
+    const client = new RpcClient("http://127.0.0.1:1");
+
+    await assert.rejects(client.call("eth_chainId"), NetworkError);
+  });
+});
+
+describe("RpcClient - Retries", () => {
+  it("should retry HTTP 429 honoring Retry-After", async () => {
+    let attempts = 0;
+    const server = await startMockRpcServer((body, res) => {
+      attempts++;
+      if (attempts === 1) {
+        res.writeHead(429, { "Retry-After": "0" });
+        res.end("Too Many Requests");
+        return undefined;
+      }
+      return rpcResult(body, "0x1");
+    });
+    try {
+      const client = new RpcClient(server.url, { retry: { initialDelay: 5000 } });
+      const started = Date.now();
+
+      const result = await client.call<string>("eth_chainId");
+
+      assert.strictEqual(result, "0x1", "Should succeed on the retry");
+      assert.strictEqual(attempts, 2, "Should send the request twice");
+      assert.ok(Date.now() - started < 2000, "Retry-After should override the backoff");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should retry -32005 limit exceeded errors", async () => {
+    let attempts = 0;
+    const server = await startMockRpcServer((body) => {
+      attempts++;
+      return attempts < 3 ? rpcError(body, -32005, "limit exceeded") : rpcResult(body, "0x10");
+    });
+    try {
+      const client = new RpcClient(server.url, { retry: { initialDelay: 1 } });
+
+      const result = await client.call<string>("eth_blockNumber");
+
+      assert.strictEqual(result, "0x10");
+      assert.strictEqual(attempts, 3);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should not retry execution reverted", async () => {
+    const server = await startMockRpcServer((body) =>
+      rpcError(body, 3, "execution reverted", "0x08c379a0"),
+    );
+    try {
+      const client = new RpcClient(server.url, { retry: { maxAttempts: 5, initialDelay: 1 } });
+
+      await assert.rejects(client.call("eth_call", [{}, "latest"]), ExecutionRevertedError);
+      assert.strictEqual(server.requests.length, 1, "Should send the call once");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should give up after maxAttempts with the last error", async () => {
+    const server = await startMockRpcServer((_body, res) => {
+      res.writeHead(503);
+      res.end("unavailable");
+    });
+    try {
+      const client = new RpcClient(server.url, { retry: { maxAttempts: 3, initialDelay: 1 } });
+
+      await assert.rejects(client.call("eth_chainId"), (error: unknown) => {
+        assert.ok(error instanceof HttpError);
+        assert.strictEqual(error.status, 503);
+        return true;
+      });
+      assert.strictEqual(server.requests.length, 3, "Should try three times");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should not retry without a retry policy", async () => {
+    const server = await startMockRpcServer((body) => rpcError(body, -32005, "limit exceeded"));
+    try {
+      const client = new RpcClient(server.url);
+
+      await assert.rejects(client.call("eth_chainId"), JsonRpcError);
+      assert.strictEqual(server.requests.length, 1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should retry whole batches on transient failures", async () => {
+    let attempts = 0;
+    const server = await startMockRpcServer((body, res) => {
+      attempts++;
+      if (attempts === 1) {
+        res.writeHead(502);
+        res.end("bad gateway");
+        return undefined;
+      }
+      return respondEach((request) => rpcResult(request, request.method))(body, res);
+    });
+    try {
+      const client = new RpcClient(server.url, { retry: { initialDelay: 1 } });
+
+      const results = await client.callBatch([
+        { method: "eth_chainId" },
+        { method: "net_version" },
+      ]);
+
+      assert.deepStrictEqual(
+        results.map((result) => result.data),
+        ["eth_chainId", "net_version"],
+      );
+      assert.strictEqual(attempts, 2);
+    } finally {
+      await server.close();
+    }
+  });
+});
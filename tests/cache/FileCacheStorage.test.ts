@@ -0,0 +1,149 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { appendFileSync, mkdtempSync, readdirSync, rmSync, truncateSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCacheStorage } from "../../src/cache/FileCacheStorage.js";
+
+function withDirectory(run: (directory: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const directory = mkdtempSync(join(tmpdir(), "cache-test-"));
+    try {
+      await run(directory);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  };
+}
+
+describe("FileCacheStorage", () => {
+  it(
+    "should store, replace and delete values",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+
+      await storage.set("a", "1");
+      await storage.set("b", "2");
+      await storage.set("a", "3");
+      await storage.delete("b");
+
+      assert.strictEqual(await storage.get("a"), "3");
+      assert.strictEqual(await storage.get("b"), undefined);
+      assert.strictEqual((await storage.getStats()).entries, 1);
+    }),
+  );
+
+  it(
+    "should reload the values after a restart",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+      await storage.set("block:1", '{"number":"0x1"}');
+      await storage.set("removed", "x");
+      await storage.delete("removed");
+      await storage.close();
+
+      const reopened = new FileCacheStorage(directory);
+
+      assert.strictEqual(await reopened.get("block:1"), '{"number":"0x1"}');
+      assert.strictEqual(await reopened.get("removed"), undefined);
+    }),
+  );
+
+  it(
+    "should skip a torn last record and keep writing to a new segment",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+      await storage.set("a", "1");
+      await storage.close();
+      appendFileSync(join(directory, "000001.log"), '["b","');
+
+      const reopened = new FileCacheStorage(directory);
+      await reopened.set("c", "3");
+
+      assert.strictEqual(await reopened.get("a"), "1");
+      assert.strictEqual(await reopened.get("b"), undefined);
+      assert.strictEqual(await new FileCacheStorage(directory).get("c"), "3");
+    }),
+  );
+
+  it(
+    "should drop the least recently used values over maxSize",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory, { maxSize: 40 });
+
+      await storage.set("a", "1".repeat(10));
+      await storage.set("b", "2".repeat(10));
+      await storage.get("a");
+      await storage.set("c", "3".repeat(10));
+
+      assert.ok(await storage.get("a"), "Recently read value kept");
+      assert.strictEqual(await storage.get("b"), undefined);
+      assert.ok((await storage.getStats()).size <= 40);
+      assert.strictEqual(
+        await new FileCacheStorage(directory).get("b"),
+        undefined,
+        "Eviction survives a restart",
+      );
+    }),
+  );
+
+  it(
+    "should roll segments and compact stale records",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory, { segmentSize: 64 });
+
+      for (let i = 0; i < 20; i++) {
+        await storage.set("key", `value-${i}`);
+      }
+      await storage.set("other", "kept");
+
+      const stats = await storage.getStats();
+      assert.strictEqual(stats.entries, 2);
+      assert.ok(stats.fileSize < 20 * 20, "Stale records should have been compacted");
+      assert.strictEqual(readdirSync(directory).length, stats.segments);
+
+      const reopened = new FileCacheStorage(directory);
+      assert.strictEqual(await reopened.get("key"), "value-19");
+      assert.strictEqual(await reopened.get("other"), "kept");
+    }),
+  );
+
+  it(
+    "should remove every segment on clear",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+      await storage.set("a", "1");
+      await storage.clear();
+
+      assert.strictEqual(await storage.get("a"), undefined);
+      assert.deepStrictEqual(readdirSync(directory), []);
+    }),
+  );
+
+  it(
+    "should clear only the keys with a prefix",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+      await storage.set("1:a", "1");
+      await storage.set("10:a", "2");
+      await storage.clear("1:");
+      await storage.close();
+
+      const reopened = new FileCacheStorage(directory);
+      assert.strictEqual(await reopened.get("1:a"), undefined);
+      assert.strictEqual(await reopened.get("10:a"), "2");
+    }),
+  );
+
+  it(
+    "should reject records cut short after indexing",
+    withDirectory(async (directory) => {
+      const storage = new FileCacheStorage(directory);
+      await storage.set("a", "x".repeat(100));
+      const [segment] = readdirSync(directory);
+      truncateSync(join(directory, segment as string), 20);
+
+      await assert.rejects(storage.get("a"), /Truncated cache record/);
+    }),
+  );
+});
@@ -0,0 +1,640 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { ResponseCache, resultValue } from "../../src/cache/ResponseCache.js";
+import type { CacheStorage } from "../../src/cache/CacheStorage.js";
+import { FileCacheStorage } from "../../src/cache/FileCacheStorage.js";
+import { ClientFactory } from "../../src/factory/ClientRegistry.js";
+import { getImmutability } from "../../src/cache/immutability.js";
+import { NetworkClient } from "../../src/NetworkClient.js";
+import { EthereumClient } from "../../src/networks/1/EthereumClient.js";
+import { AztecClient } from "../../src/networks/677868/AztecClient.js";
+import { BNBClient } from "../../src/networks/56/BNBClient.js";
+import { BNBTestnetClient } from "../../src/networks/97/BNBTestnetClient.js";
+import { OptimismClient } from "../../src/networks/10/OptimismClient.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { StrategyResult } from "../../src/strategies/strategiesTypes.js";
+import { startMockWsServer, waitFor } from "../helpers/mockWsServer.js";
+import WebSocket from "ws";
+
+const ok = <T>(data: T): StrategyResult<T> => ({ success: true, data });
+const finalizedAt = (number: number) => async () => number;
+
+const block = (number: number, fork = "b") => ({
+  number: `0x${number.toString(16)}`,
+  hash: `0x${fork}${number}`,
+  parentHash: `0x${fork}${number - 1}`,
+});
+const stored = (cache: ResponseCache, number: number) =>
+  !!cache.get("eth_getBlockByNumber", [`0x${number.toString(16)}`, false]);
+
+describe("Immutability rules", () => {
+  it("should treat content-addressed and chain constants as immutable", () => {
+    assert.strictEqual(getImmutability("eth_chainId", [], "0x1"), true);
+    assert.strictEqual(getImmutability("eth_getBlockByHash", ["0xabc", false], block(1)), true);
+    assert.strictEqual(getImmutability("eth_getBlockByHash", ["0xabc", false], null), false);
+  });
+
+  it("should only cache mined transactions and receipts", () => {
+    assert.strictEqual(getImmutability("eth_getTransactionReceipt", ["0x1"], null), false);
+    assert.strictEqual(
+      getImmutability("eth_getTransactionByHash", ["0x1"], { hash: "0x1", blockHash: null }),
+      false,
+    );
+    assert.deepStrictEqual(
+      getImmutability("eth_getTransactionReceipt", ["0x1"], {
+        blockNumber: "0x5",
+        blockHash: "0xabc",
+      }),
+      { number: 5, hash: "0xabc" },
+    );
+  });
+
+  it("should need finality for blocks by number and never cache moving tags", () => {
+    assert.deepStrictEqual(getImmutability("eth_getBlockByNumber", ["0x10", false], block(16)), {
+      number: 16,
+      hash: "0xb16",
+    });
+    assert.deepStrictEqual(getImmutability("node_getBlock", [42], { number: 42 }), { number: 42 });
+    assert.strictEqual(getImmutability("eth_getBlockByNumber", ["latest", false], block(1)), false);
+    assert.strictEqual(getImmutability("eth_getBlockByNumber", ["pending", true], block(1)), false);
+    assert.strictEqual(getImmutability("node_getBlock", ["latest"], { number: 1 }), false);
+    assert.strictEqual(getImmutability("eth_blockNumber", [], "0x1"), false);
+  });
+});
+
+describe("ResponseCache", () => {
+  it("should return cached results and count hits and misses", async () => {
+    const cache = new ResponseCache();
+
+    assert.strictEqual(cache.get("eth_chainId", []), undefined);
+    await cache.store("eth_chainId", [], ok("0x1"), finalizedAt(0));
+
+    assert.strictEqual(cache.get("eth_chainId", [])?.data, "0x1");
+    assert.deepStrictEqual(cache.getStats(), {
+      hits: 1,
+      misses: 1,
+      storageHits: 0,
+      entries: 1,
+      evictions: 0,
+      unfinalized: 0,
+      reorgs: 0,
+      invalidations: 0,
+    });
+  });
+
+  it("should match equivalent params", async () => {
+    const cache = new ResponseCache();
+    await cache.store("eth_getBlockByHash", ["0xABC", false], ok(block(1)), finalizedAt(0));
+
+    assert.ok(cache.get("eth_getBlockByHash", ["0xabc", false]));
+    assert.strictEqual(cache.get("eth_getBlockByHash", ["0xabc", true]), undefined);
+  });
+
+  it("should keep unfinalized blocks only when their hash is known", async () => {
+    const cache = new ResponseCache();
+    await cache.store("eth_getBlockByNumber", ["0x10", false], ok(block(16)), finalizedAt(16));
+    await cache.store("eth_getBlockByNumber", ["0x11", false], ok(block(17)), finalizedAt(16));
+    await cache.store("node_getBlock", [17], ok({ number: 17 }), finalizedAt(16));
+
+    assert.ok(stored(cache, 16));
+    assert.ok(stored(cache, 17));
+    assert.strictEqual(cache.get("node_getBlock", [17]), undefined);
+    assert.strictEqual(cache.getStats().unfinalized, 1);
+  });
+
+  it("should reuse the finalized block number within finalityTtl", async () => {
+    const cache = new ResponseCache({ finalityTtl: 60000 });
+    let lookups = 0;
+    const resolve = async () => {
+      lookups++;
+      return 100;
+    };
+
+    await cache.store("eth_getBlockByNumber", ["0x1", false], ok(block(1)), resolve);
+    await cache.store("eth_getBlockByNumber", ["0x2", false], ok(block(2)), resolve);
+
+    assert.strictEqual(lookups, 1);
+  });
+
+  it("should not cache failures or inconsistent results", async () => {
+    const cache = new ResponseCache();
+    await cache.store("eth_chainId", [], { success: false }, finalizedAt(0));
+    await cache.store(
+      "eth_getBlockByHash",
+      ["0xabc", false],
+      {
+        success: true,
+        data: block(1),
+        metadata: { strategy: "parallel", timestamp: 0, responses: [], hasInconsistencies: true },
+      },
+      finalizedAt(0),
+    );
+
+    assert.strictEqual(cache.getStats().entries, 0);
+  });
+
+  it("should evict the least recently used entry", async () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+    for (const hash of ["0xa", "0xb"]) {
+      await cache.store("eth_getBlockByHash", [hash, false], ok(hash), finalizedAt(0));
+    }
+    cache.get("eth_getBlockByHash", ["0xa", false]);
+    await cache.store("eth_getBlockByHash", ["0xc", false], ok("0xc"), finalizedAt(0));
+
+    assert.ok(cache.get("eth_getBlockByHash", ["0xa", false]), "Recently used entry kept");
+    assert.strictEqual(cache.get("eth_getBlockByHash", ["0xb", false]), undefined);
+    assert.strictEqual(cache.getStats().evictions, 1);
+  });
+
+  it("should expire entries after the TTL", async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    await cache.store("eth_chainId", [], ok("0x1"), finalizedAt(0));
+
+    assert.ok(cache.get("eth_chainId", [], Date.now() + 500));
+    assert.strictEqual(cache.get("eth_chainId", [], Date.now() + 1500), undefined);
+  });
+});
+
+describe("ResponseCache - Reorgs", () => {
+  const cacheBlocks = async (cache: ResponseCache, numbers: number[], fork = "b") => {
+    for (const number of numbers) {
+      await cache.store(
+        "eth_getBlockByNumber",
+        [`0x${number.toString(16)}`, false],
+        ok(block(number, fork)),
+        finalizedAt(10),
+      );
+    }
+  };
+
+  it("should drop blocks from the height of a replaced block on a known parent", async () => {
+    const cache = new ResponseCache();
+    await cacheBlocks(cache, [10, 11, 12, 13]);
+
+    cache.observeBlock(12, "0xc12", "0xb11");
+
+    assert.ok(stored(cache, 10), "Finalized block kept");
+    assert.ok(stored(cache, 11), "Common ancestor kept");
+    assert.strictEqual(stored(cache, 12), false);
+    assert.strictEqual(stored(cache, 13), false);
+    assert.strictEqual(cache.getStats().reorgs, 1);
+    assert.strictEqual(cache.getStats().invalidations, 2);
+  });
+
+  it("should drop every unfinalized block when the reorg depth is unknown", async () => {
+    const cache = new ResponseCache();
+    await cacheBlocks(cache, [10, 11, 12, 13]);
+
+    // Block 14 builds on a different block 13, whose ancestors are unknown
+    cache.observe("eth_getBlockByNumber", block(14, "c"));
+
+    assert.ok(stored(cache, 10));
+    assert.strictEqual(stored(cache, 11), false);
+    assert.strictEqual(stored(cache, 13), false);
+    assert.strictEqual(cache.getStats().unfinalized, 0);
+  });
+
+  it("should keep blocks when a new head extends the chain", async () => {
+    const cache = new ResponseCache();
+    await cacheBlocks(cache, [11, 12]);
+
+    cache.observe("eth_getBlockByNumber", block(13));
+    cache.observe("eth_getBlockByNumber", block(12));
+
+    assert.ok(stored(cache, 11));
+    assert.ok(stored(cache, 12));
+    assert.strictEqual(cache.getStats().reorgs, 0);
+  });
+
+  it("should not treat blocks looked up by hash as the canonical chain", async () => {
+    const cache = new ResponseCache();
+    await cacheBlocks(cache, [11, 12]);
+
+    // An uncle at height 12 is still returned by its hash
+    await cache.store("eth_getBlockByHash", ["0xc12", false], ok(block(12, "c")), finalizedAt(10));
+    cache.observe("eth_getBlockByNumber", block(13));
+
+    assert.ok(stored(cache, 12));
+    assert.strictEqual(cache.getStats().reorgs, 0);
+  });
+
+  it("should drop transactions mined in a reorged block", async () => {
+    const cache = new ResponseCache();
+    const receipt = { transactionHash: "0x1", blockNumber: "0xc", blockHash: "0xb12" };
+    await cache.store("eth_getTransactionReceipt", ["0x1"], ok(receipt), finalizedAt(10));
+
+    assert.ok(cache.get("eth_getTransactionReceipt", ["0x1"]));
+    cache.observe("eth_getBlockByNumber", block(12, "c"));
+
+    assert.strictEqual(cache.get("eth_getTransactionReceipt", ["0x1"]), undefined);
+  });
+
+  it("should make entries permanent once their block is finalized", async () => {
+    const cache = new ResponseCache({ finalityTtl: 0 });
+    await cacheBlocks(cache, [11, 12]);
+
+    await cache.store("eth_getBlockByNumber", ["0x9", false], ok(block(9)), finalizedAt(11));
+    cache.observeBlock(11, "0xc11");
+    cache.observeBlock(12, "0xc12", "0xc11");
+
+    assert.ok(stored(cache, 11), "Finalized block no longer invalidated");
+    assert.strictEqual(stored(cache, 12), false);
+  });
+
+  it("should not promote entries whose block hash is no longer tracked", async () => {
+    const cache = new ResponseCache({ finalityTtl: 0 });
+    await cacheBlocks(cache, [11, 12]);
+    // Pushes height 11 out of the tracked hashes, so its block cannot be confirmed
+    for (let number = 13; number <= 1035; number++) {
+      cache.observeBlock(number, `0xb${number}`);
+    }
+
+    await cache.store("eth_getBlockByNumber", ["0x9", false], ok(block(9)), finalizedAt(12));
+
+    assert.strictEqual(stored(cache, 11), false);
+    assert.ok(stored(cache, 12));
+    assert.strictEqual(cache.getStats().unfinalized, 0);
+    assert.strictEqual(cache.getStats().reorgs, 0);
+  });
+
+  it("should not move finality backwards when a provider lags", async () => {
+    const cache = new ResponseCache({ finalityTtl: 0 });
+    await cacheBlocks(cache, [11]);
+    await cache.store("eth_getBlockByNumber", ["0x1", false], ok(block(1)), finalizedAt(11));
+    await cache.store("eth_getBlockByNumber", ["0xc", false], ok(block(12)), finalizedAt(5));
+
+    assert.strictEqual(cache.getStats().unfinalized, 1, "Only block 12 waits for finality");
+  });
+});
+
+class MapStorage implements CacheStorage {
+  values = new Map<string, string>();
+  async get(key: string) {
+    return this.values.get(key);
+  }
+  async set(key: string, value: string) {
+    this.values.set(key, value);
+  }
+  async delete(key: string) {
+    this.values.delete(key);
+  }
+  async clear(prefix = "") {
+    for (const key of Array.from(this.values.keys())) {
+      if (key.startsWith(prefix)) this.values.delete(key);
+    }
+  }
+}
+
+describe("ResponseCache - Storage", () => {
+  it("should persist only final responses, keyed by chain", async () => {
+    const storage = new MapStorage();
+    const cache = new ResponseCache({ storage, chainId: 1 });
+
+    await cache.store("eth_chainId", [], ok("0x1"), finalizedAt(10));
+    await cache.store("eth_getBlockByNumber", ["0xa", false], ok(block(10)), finalizedAt(10));
+    await cache.store("eth_getBlockByNumber", ["0xb", false], ok(block(11)), finalizedAt(10));
+
+    assert.deepStrictEqual(Array.from(storage.values.keys()), [
+      "1:eth_chainId:[]",
+      '1:eth_getBlockByNumber:["0xa",false]',
+    ]);
+  });
+
+  it("should persist responses once their block is finalized", async () => {
+    const storage = new MapStorage();
+    const cache = new ResponseCache({ storage, finalityTtl: 0 });
+
+    await cache.store("eth_getBlockByNumber", ["0xb", false], ok(block(11)), finalizedAt(10));
+    assert.strictEqual(storage.values.size, 0);
+    await cache.store("eth_getBlockByNumber", ["0xc", false], ok(block(12)), finalizedAt(11));
+
+    assert.ok(storage.values.has('eth_getBlockByNumber:["0xb",false]'));
+    assert.strictEqual(storage.values.size, 1);
+  });
+
+  it("should load persisted responses into memory", async () => {
+    const storage = new MapStorage();
+    await new ResponseCache({ storage }).store("eth_chainId", [], ok("0x1"), finalizedAt(0));
+    const cache = new ResponseCache({ storage });
+
+    assert.strictEqual((await cache.load("eth_chainId", []))?.data, "0x1");
+    assert.strictEqual(cache.get("eth_chainId", [])?.data, "0x1", "Kept in memory");
+    assert.strictEqual(await cache.load("eth_getBlockByHash", ["0xabc", false]), undefined);
+    const stats = cache.getStats();
+    assert.deepStrictEqual([stats.hits, stats.storageHits, stats.misses], [2, 1, 1]);
+  });
+
+  it("should treat storage errors as misses", async () => {
+    const storage = new MapStorage();
+    storage.get = async () => {
+      throw new Error("disk failure");
+    };
+    storage.set = storage.get;
+    const cache = new ResponseCache({ storage });
+
+    await cache.store("eth_chainId", [], ok("0x1"), finalizedAt(0));
+    cache.clear();
+
+    assert.strictEqual(await cache.load("eth_chainId", []), undefined);
+  });
+
+  it("should clear only the persisted responses of its chain", async () => {
+    const storage = new MapStorage();
+    const mainnet = new ResponseCache({ storage, chainId: 1 });
+    await mainnet.store("eth_chainId", [], ok("0x1"), finalizedAt(0));
+    await new ResponseCache({ storage, chainId: 10 }).store(
+      "eth_chainId",
+      [],
+      ok("0xa"),
+      finalizedAt(0),
+    );
+
+    mainnet.clear();
+    await Promise.resolve();
+
+    assert.deepStrictEqual(Array.from(storage.values.keys()), ["10:eth_chainId:[]"]);
+  });
+
+  it("should key persisted responses by the chain of the client class", async () => {
+    const storage = new MapStorage();
+    const config = (chainId: string) => ({
+      type: "fallback" as const,
+      rpcUrls: [],
+      transports: [new MockTransport({ eth_chainId: chainId })],
+      cache: { storage },
+    });
+    const mainnet = new BNBClient(config("0x38"));
+    const testnet = new BNBTestnetClient(config("0x61"));
+
+    await mainnet.execute("eth_chainId");
+    await testnet.execute("eth_chainId");
+
+    assert.deepStrictEqual(Array.from(storage.values.keys()), [
+      "56:eth_chainId:[]",
+      "97:eth_chainId:[]",
+    ]);
+    assert.strictEqual(
+      (await new BNBTestnetClient(config("0x0")).execute("eth_chainId")).data,
+      "0x61",
+    );
+  });
+
+  it("should key a Hardhat client's persisted responses by its own chain", async () => {
+    const storage = new MapStorage();
+    const client = ClientFactory.createClient(31337, {
+      type: "fallback",
+      rpcUrls: [],
+      transports: [new MockTransport({ eth_chainId: "0x7a69" })],
+      cache: { storage },
+    });
+
+    await client.execute("eth_chainId");
+
+    assert.deepStrictEqual(Array.from(storage.values.keys()), ["31337:eth_chainId:[]"]);
+  });
+
+  it("should reuse responses from disk after a client restart", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "cache-test-"));
+    const createClient = (transport: MockTransport) =>
+      ClientFactory.createClient(1, {
+        type: "fallback",
+        rpcUrls: [],
+        transports: [transport],
+        cache: { storage: new FileCacheStorage(directory) },
+      });
+    const provider = () =>
+      new MockTransport({
+        eth_getBlockByNumber: ([tag]: [string]) =>
+          tag === "finalized" ? block(16) : block(Number(tag)),
+      });
+
+    try {
+      const first = createClient(provider());
+      await first.execute("eth_getBlockByNumber", ["0x10", false]);
+      first.close();
+
+      const transport = provider();
+      const restarted = createClient(transport);
+      const result = await restarted.execute("eth_getBlockByNumber", ["0x10", false]);
+      restarted.close();
+
+      assert.deepStrictEqual(result.data, block(16));
+      assert.strictEqual(transport.calls.length, 0, "Served from disk");
+      assert.strictEqual(restarted.getCacheStats()?.storageHits, 1);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("NetworkClient - Response Cache", () => {
+  const provider = () =>
+    new MockTransport({
+      eth_chainId: "0x1",
+      eth_blockNumber: "0x20",
+      eth_getBlockByNumber: ([tag]: [string]) =>
+        tag === "finalized" ? block(16) : block(Number(tag)),
+    });
+
+  it("should serve repeated immutable calls from the cache", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.execute("eth_getBlockByNumber", ["0x10", false]);
+    const cached = await client.execute("eth_getBlockByNumber", ["0x10", false]);
+
+    assert.deepStrictEqual(cached.data, block(16));
+    assert.deepStrictEqual(
+      transport.calls.map((call) => call.params[0]),
+      ["0x10", "finalized"],
+      "Second call should not reach the provider",
+    );
+    assert.strictEqual(client.getCacheStats()?.hits, 1);
+  });
+
+  it("should not cache latest blocks", async () => {
+    const transport = provider();
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.execute("eth_getBlockByNumber", ["latest", false]);
+    await client.execute("eth_getBlockByNumber", ["latest", false]);
+    await client.execute("eth_getBlockByNumber", ["0x11", false]);
+    await client.execute("eth_getBlockByNumber", ["0x11", false]);
+    await client.execute("eth_blockNumber");
+    await client.execute("eth_blockNumber");
+
+    assert.strictEqual(client.getCacheStats()?.entries, 1, "Only block 0x11, by hash");
+    assert.strictEqual(client.getCacheStats()?.unfinalized, 1);
+    assert.strictEqual(
+      transport.calls.filter((call) => call.method === "eth_blockNumber").length,
+      2,
+    );
+  });
+
+  it("should cache the responses of the adaptive strategy in parallel mode", async () => {
+    const transports = [provider(), provider()];
+    const client = new NetworkClient({
+      type: "adaptive",
+      rpcUrls: [],
+      transports,
+      cache: true,
+      adaptive: { mode: "parallel" },
+    });
+
+    await client.execute("eth_getBlockByNumber", ["0x10", false]);
+    const cached = await client.execute("eth_getBlockByNumber", ["0x10", false]);
+
+    assert.strictEqual(cached.metadata?.strategy, "adaptive");
+    assert.deepStrictEqual(resultValue(cached), block(16));
+    assert.strictEqual(client.getCacheStats()?.hits, 1);
+    assert.strictEqual(client.getCacheStats()?.unfinalized, 0, "Block 16 is finalized");
+    assert.ok(
+      transports.every(
+        (transport) => transport.calls.filter((call) => call.params[0] === "0x10").length === 1,
+      ),
+    );
+    client.close();
+  });
+
+  it("should be disabled by default", async () => {
+    const client = new NetworkClient({ type: "fallback", rpcUrls: [], transports: [provider()] });
+
+    await client.execute("eth_chainId");
+
+    assert.strictEqual(client.getCacheStats(), undefined);
+  });
+
+  it("should evict blocks reorged out by a new head", async () => {
+    let fork = "b";
+    const transport = new MockTransport({
+      eth_getBlockByNumber: ([tag]: [string]) =>
+        tag === "finalized"
+          ? block(16)
+          : tag === "latest"
+            ? block(20, fork)
+            : block(Number(tag), fork),
+    });
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.execute("eth_getBlockByNumber", ["0x13", false]);
+    fork = "c";
+    await client.execute("eth_getBlockByNumber", ["latest", false]);
+    const refetched = await client.execute("eth_getBlockByNumber", ["0x13", false]);
+
+    assert.deepStrictEqual(refetched.data, block(19, "c"));
+    assert.strictEqual(client.getCacheStats()?.reorgs, 1);
+  });
+
+  it("should evict blocks reorged out by a newHeads notification", async () => {
+    const server = await startMockWsServer();
+    const transport = new MockTransport({
+      eth_getBlockByNumber: ([tag]: [string]) =>
+        tag === "finalized" ? block(16) : block(Number(tag)),
+    });
+    const client = new EthereumClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      wsUrl: server.url,
+      wsOptions: { WebSocket: WebSocket as any },
+      cache: true,
+    });
+    try {
+      const heads: unknown[] = [];
+      await client.subscribeNewHeads((head) => heads.push(head));
+      await client.execute("eth_getBlockByNumber", ["0x13", false]);
+
+      server.notify("0x1", block(20, "c"));
+      await waitFor(() => heads.length === 1);
+
+      assert.strictEqual(client.getCacheStats()?.reorgs, 1);
+      assert.strictEqual(client.getCacheStats()?.entries, 0);
+    } finally {
+      client.close();
+      await server.close();
+    }
+  });
+
+  it("should use the BNB fast finality header", async () => {
+    const transport = new MockTransport({
+      eth_getFinalizedHeader: block(16),
+      eth_getBlockByNumber: ([tag]: [string]) => block(Number(tag)),
+    });
+    const client = new BNBClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.getBlockByNumber("0x10");
+    await client.getBlockByNumber("0x10");
+
+    assert.strictEqual(client.getCacheStats()?.hits, 1);
+    assert.strictEqual(client.getCacheStats()?.unfinalized, 0);
+  });
+
+  it("should fall back to the finalized tag without optimism_syncStatus", async () => {
+    const transport = new MockTransport({
+      optimism_syncStatus: () => {
+        throw new Error("the method optimism_syncStatus does not exist");
+      },
+      eth_getBlockByNumber: ([tag]: [string]) =>
+        tag === "finalized" ? block(16) : block(Number(tag)),
+    });
+    const client = new OptimismClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.getBlockByNumber("0x10");
+
+    assert.strictEqual(client.getCacheStats()?.unfinalized, 0);
+    assert.ok(transport.calls.some((call) => call.params[0] === "finalized"));
+  });
+
+  it("should cache Aztec blocks once finalized", async () => {
+    const tip = (number: number) => ({ hash: "0x0", number });
+    const transport = new MockTransport({
+      node_getL2Tips: { latest: tip(12), proven: tip(11), finalized: tip(10) },
+      node_getBlock: ([number]: [number]) => ({ number }),
+    });
+    const client = new AztecClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      cache: true,
+    });
+
+    await client.getBlock(10);
+    await client.getBlock(10);
+    await client.getBlock(11);
+    await client.getBlock(11);
+
+    assert.strictEqual(
+      transport.calls.filter((call) => call.method === "node_getBlock").length,
+      3,
+      "Only the finalized block should be cached",
+    );
+  });
+});
@@ -4,12 +4,26 @@ import { ClientFactory } from "../../src/factory/ClientRegistry.js";
 import { EthereumClient } from "../../src/networks/1/EthereumClient.js";
 import { OptimismClient } from "../../src/networks/10/OptimismClient.js";
 import { BNBClient } from "../../src/networks/56/BNBClient.js";
+import { BNBTestnetClient } from "../../src/networks/97/BNBTestnetClient.js";
 import { PolygonClient } from "../../src/networks/137/PolygonClient.js";
 import { BaseClient } from "../../src/networks/8453/BaseClient.js";
 import { ArbitrumClient } from "../../src/networks/42161/ArbitrumClient.js";
 import { AztecClient } from "../../src/networks/677868/AztecClient.js";
 import { SepoliaClient } from "../../src/networks/11155111/SepoliaClient.js";
 import type { StrategyConfig } from "../../src/strategies/requestStrategy.js";
+import { NetworkClient } from "../../src/NetworkClient.js";
+
+class GnosisClient extends NetworkClient {
+  getChainName(): string {
+    return "gnosis";
+  }
+}
+
+declare module "../../src/factory/ClientRegistry.js" {
+  interface ChainClients {
+    100: GnosisClient;
+  }
+}
 
 const TEST_URLS = ["https://rpc.example.com"];
 
@@ -40,10 +54,10 @@ describe("ClientFactory - createClient", () => {
     assert.strictEqual(client.getStrategyName(), "fallback", "Should use fallback strategy");
   });
 
-  it("should create BNBClient for chain ID 97 (BNB Testnet)", () => {
+  it("should create BNBTestnetClient for chain ID 97 (BNB Testnet)", () => {
     const client = ClientFactory.createClient(97, TEST_CONFIG);
 
-    assert.ok(client instanceof BNBClient, "Should create BNBClient instance for BNB Testnet");
+    assert.ok(client instanceof BNBTestnetClient, "Should create BNBTestnetClient instance");
     assert.strictEqual(client.getStrategyName(), "fallback", "Should use fallback strategy");
   });
 
@@ -208,7 +222,7 @@ describe("ClientFactory - All Networks Coverage", () => {
       { chainId: 1 as const, clientClass: EthereumClient, name: "Ethereum" },
       { chainId: 10 as const, clientClass: OptimismClient, name: "Optimism" },
       { chainId: 56 as const, clientClass: BNBClient, name: "BNB" },
-      { chainId: 97 as const, clientClass: BNBClient, name: "BNB Testnet" },
+      { chainId: 97 as const, clientClass: BNBTestnetClient, name: "BNB Testnet" },
       { chainId: 137 as const, clientClass: PolygonClient, name: "Polygon" },
       { chainId: 8453 as const, clientClass: BaseClient, name: "Base" },
       { chainId: 42161 as const, clientClass: ArbitrumClient, name: "Arbitrum" },
@@ -226,3 +240,50 @@ describe("ClientFactory - All Networks Coverage", () => {
     }
   });
 });
+
+describe("ClientFactory - Registration", () => {
+  it("should create clients of registered chains", () => {
+    ClientFactory.register(100, GnosisClient, { name: "Gnosis", currency: "xDAI" });
+
+    const client = ClientFactory.createTypedClient(100, TEST_CONFIG);
+
+    assert.ok(client instanceof GnosisClient);
+    assert.strictEqual(client.getChainName(), "gnosis");
+    assert.ok(ClientFactory.isSupported(100));
+    assert.ok(ClientFactory.getSupportedChainIds().includes(100));
+    assert.deepStrictEqual(ClientFactory.getChainMetadata(100), {
+      name: "Gnosis",
+      currency: "xDAI",
+    });
+  });
+
+  it("should replace a built-in chain's client", () => {
+    const original = ClientFactory.getChainMetadata(31337);
+    class LocalClient extends EthereumClient {}
+    ClientFactory.register(31337, LocalClient, { name: "Anvil", testnet: true });
+
+    try {
+      assert.ok(ClientFactory.createClient(31337, TEST_CONFIG) instanceof LocalClient);
+      assert.strictEqual(ClientFactory.getChainMetadata(31337)?.name, "Anvil");
+    } finally {
+      ClientFactory.register(31337, EthereumClient, original as { name: string });
+    }
+  });
+
+  it("should describe the built-in chains", () => {
+    assert.deepStrictEqual(ClientFactory.getChainMetadata(97), {
+      name: "BNB Smart Chain Testnet",
+      currency: "tBNB",
+      testnet: true,
+    });
+    assert.strictEqual(ClientFactory.getChainMetadata(12345), undefined);
+    assert.strictEqual(ClientFactory.isSupported(12345), false);
+  });
+
+  it("should include the chain ID in the unsupported network error", () => {
+    assert.throws(
+      () => ClientFactory.createClient(12345 as 1, TEST_CONFIG),
+      /Unsupported network ID: 12345/,
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { NetworkError } from "../../src/RpcErrors.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import type { RPCProviderResponse } from "../../src/strategies/strategiesTypes.js";
+
+/**
+ * Mock transport whose every call fails with a NetworkError, like an unreachable provider
+ */
+export function failing(url: string): MockTransport {
+  return new MockTransport(
+    () => {
+      throw new NetworkError("connection refused", url);
+    },
+    { url },
+  );
+}
+
+/**
+ * Successful provider response as collected by the multi-provider strategies
+ */
+export function success(url: string, data: unknown): RPCProviderResponse {
+  return { url, status: "success", responseTime: 1, data };
+}
@@ -0,0 +1,79 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Handles a parsed JSON-RPC request body
+ * Return the JSON body to send, or undefined if the handler wrote the response itself
+ */
+export type MockRpcHandler = (body: any, res: ServerResponse) => unknown | Promise<unknown>;
+
+export interface MockRpcServer {
+  url: string;
+  /** Parsed request bodies in the order they were received */
+  requests: any[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP JSON-RPC stand-in on a random port
+ */
+export async function startMockRpcServer(handler: MockRpcHandler): Promise<MockRpcServer> {
+  const requests: any[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", async () => {
+      const body = JSON.parse(raw);
+      requests.push(body);
+      const result = await handler(body, res);
+      if (result !== undefined && !res.writableEnded) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * Build a successful JSON-RPC response for a request
+ */
+export function rpcResult(request: any, result: unknown): object {
+  return { jsonrpc: "2.0", id: request.id, result };
+}
+
+/**
+ * Build a JSON-RPC error response for a request
+ */
+export function rpcError(request: any, code: number, message: string, data?: unknown): object {
+  return { jsonrpc: "2.0", id: request.id, error: { code, message, data } };
+}
+
+/**
+ * Build a handler that answers single and batch requests item by item
+ */
+export function respondEach(handle: (request: any) => object): MockRpcHandler {
+  return (body) => (Array.isArray(body) ? body.map(handle) : handle(body));
+}
+
+/**
+ * A promise that never settles, used to simulate a hung provider
+ */
+export function never(): Promise<never> {
+  return new Promise<never>(() => {});
+}
@@ -0,0 +1,86 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "node:net";
+
+export interface MockWsServer {
+  url: string;
+  /** Parsed JSON-RPC requests in the order they were received */
+  requests: any[];
+  /** Number of connections accepted so far */
+  connections: number;
+  /** Send an eth_subscription notification to every open connection */
+  notify(subscription: string, result: unknown): void;
+  /** Terminate every open connection without closing the server */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local WebSocket JSON-RPC stand-in on a random port
+ * eth_subscribe returns sequential ids ("0x1", "0x2", ...); other methods are
+ * answered by the handler, and left unanswered when it returns undefined
+ */
+export async function startMockWsServer(
+  handler: (request: any) => unknown = () => null,
+): Promise<MockWsServer> {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+
+  const sockets = new Set<WebSocket>();
+  let subscriptionCount = 0;
+
+  const mock: MockWsServer = {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    connections: 0,
+    notify(subscription, result) {
+      const message = JSON.stringify({
+        jsonrpc: "2.0",
+        method: "eth_subscription",
+        params: { subscription, result },
+      });
+      for (const socket of sockets) socket.send(message);
+    },
+    dropConnections() {
+      for (const socket of sockets) socket.terminate();
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.terminate();
+        server.close(() => resolve());
+      }),
+  };
+
+  server.on("connection", (socket) => {
+    mock.connections++;
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("message", (raw) => {
+      const request = JSON.parse(raw.toString());
+      mock.requests.push(request);
+      const result =
+        request.method === "eth_subscribe"
+          ? `0x${(++subscriptionCount).toString(16)}`
+          : request.method === "eth_unsubscribe"
+            ? true
+            : handler(request);
+      if (result !== undefined) {
+        socket.send(JSON.stringify({ jsonrpc: "2.0", id: request.id, result }));
+      }
+    });
+  });
+
+  return mock;
+}
+
+/**
+ * Resolve once the predicate holds, polling every few milliseconds
+ */
+export async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
+import WebSocket from "ws";
 import { EthereumClient } from "../../src/networks/1/EthereumClient.js";
 import type { StrategyConfig } from "../../src/strategies/requestStrategy.js";
 import {
@@ -13,6 +14,7 @@ import {
   validateFailureResult,
   isHexString,
 } from "../helpers/validators.js";
+import { startMockWsServer, waitFor } from "../helpers/mockWsServer.js";
 
 const TEST_URLS = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -475,3 +477,55 @@ describe("EthereumClient - Parallel Strategy", () => {
     assert.strictEqual(result.metadata.strategy, "parallel", "Should be parallel strategy");
   });
 });
+
+describe("EthereumClient - Subscriptions", () => {
+  it("should subscribe to newHeads over the configured WebSocket", async () => {
+    const server = await startMockWsServer();
+    const client = new EthereumClient({
+      type: "fallback",
+      rpcUrls: TEST_URLS,
+      wsUrl: server.url,
+      wsOptions: { WebSocket: WebSocket as any },
+    });
+    try {
+      const heads: string[] = [];
+      await client.subscribeNewHeads((head) => heads.push(head.number));
+      server.notify("0x1", { number: "0x10", hash: "0xabc" });
+      await waitFor(() => heads.length === 1);
+
+      assert.deepStrictEqual(heads, ["0x10"], "Should receive the new head");
+      assert.deepStrictEqual(server.requests[0].params, ["newHeads"], "Should subscribe to heads");
+    } finally {
+      client.close();
+      await server.close();
+    }
+  });
+
+  it("should pass the log filter to eth_subscribe", async () => {
+    const server = await startMockWsServer();
+    const client = new EthereumClient({
+      type: "fallback",
+      rpcUrls: TEST_URLS,
+      wsUrl: server.url,
+      wsOptions: { WebSocket: WebSocket as any },
+    });
+    try {
+      const filter = { address: ZERO_ADDRESS, topics: [] };
+      await client.subscribeLogs(filter, () => {});
+
+      assert.deepStrictEqual(server.requests[0].params, ["logs", filter], "Should send filter");
+    } finally {
+      client.close();
+      await server.close();
+    }
+  });
+
+  it("should reject subscriptions without a wsUrl", async () => {
+    const client = new EthereumClient({ type: "fallback", rpcUrls: TEST_URLS });
+
+    await assert.rejects(
+      client.subscribePendingTransactions(() => {}),
+      /WebSocket URL/,
+    );
+  });
+});
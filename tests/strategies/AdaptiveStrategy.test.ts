@@ -0,0 +1,206 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { AdaptiveStrategy } from "../../src/strategies/adaptiveStrategy.js";
+import { ProviderStatsTracker } from "../../src/strategies/providerStats.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { JsonRpcError, NetworkError } from "../../src/RpcErrors.js";
+import { failing } from "../helpers/fixtures.js";
+
+describe("ProviderStatsTracker", () => {
+  it("should keep an exponentially weighted average of latency", () => {
+    const stats = new ProviderStatsTracker({ alpha: 0.5 });
+
+    stats.record("mock://a", 100);
+    stats.record("mock://a", 200);
+
+    const score = stats.getScore("mock://a");
+    assert.strictEqual(score.latency, 150);
+    assert.strictEqual(score.errorRate, 0);
+    assert.strictEqual(score.samples, 2);
+  });
+
+  it("should penalize failures but not deterministic JSON-RPC errors", () => {
+    const stats = new ProviderStatsTracker({ alpha: 0.5, errorPenalty: 1000 });
+
+    stats.record("mock://down", 10, new NetworkError("connection refused"));
+    stats.record("mock://strict", 10, new JsonRpcError(-32602, "invalid params"));
+
+    assert.strictEqual(stats.getScore("mock://down").errorRate, 0.5);
+    assert.strictEqual(stats.getScore("mock://down").score, 500);
+    assert.strictEqual(stats.getScore("mock://strict").errorRate, 0);
+    assert.strictEqual(stats.getScore("mock://strict").latency, 10);
+  });
+
+  it("should compute latency percentiles over recent samples", () => {
+    const stats = new ProviderStatsTracker({ windowSize: 4 });
+    for (const latency of [1000, 10, 20, 30, 40]) {
+      stats.record("mock://a", latency);
+    }
+
+    assert.strictEqual(stats.getLatencyPercentile("mock://a", 50), 20);
+    assert.strictEqual(stats.getLatencyPercentile("mock://a", 100), 40, "Oldest sample dropped");
+    assert.strictEqual(stats.getLatencyPercentile("mock://unknown", 50), undefined);
+  });
+
+  it("should rank by score and keep the given order on ties", () => {
+    const stats = new ProviderStatsTracker();
+    stats.record("mock://slow", 300);
+    stats.record("mock://fast", 10);
+
+    const ranked = stats.rank(
+      ["mock://slow", "mock://fast", "mock://new", "mock://new2"],
+      (url) => url,
+    );
+
+    assert.deepStrictEqual(ranked, ["mock://new", "mock://new2", "mock://fast", "mock://slow"]);
+  });
+});
+
+describe("AdaptiveStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new AdaptiveStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "adaptive",
+      rpcUrls: [],
+      transports: [new MockTransport({})],
+      adaptive: { mode: "parallel", fanOut: 2 },
+    });
+
+    assert.ok(strategy instanceof AdaptiveStrategy);
+    assert.strictEqual(strategy.getName(), "adaptive");
+  });
+});
+
+describe("AdaptiveStrategy - Fallback Mode", () => {
+  it("should move a failing provider behind the healthy ones", async () => {
+    const down = failing("mock://down");
+    const up = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://up" });
+    const strategy = new AdaptiveStrategy([down, up]);
+
+    const first = await strategy.execute<string>("eth_chainId", []);
+    const second = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(
+      first.metadata?.responses.length,
+      2,
+      "First request tries the configured order",
+    );
+    assert.strictEqual(second.data, "0x1");
+    assert.deepStrictEqual(
+      second.metadata?.responses.map((response) => response.url),
+      ["mock://up"],
+      "Second request starts with the healthy provider",
+    );
+    assert.strictEqual(second.metadata?.strategy, "adaptive");
+    assert.strictEqual(second.metadata?.respondedBy, "mock://up");
+    assert.strictEqual(down.calls.length, 1);
+  });
+
+  it("should prefer the provider with the lower latency", async () => {
+    const slow = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 60 });
+    const fast = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 });
+    const stats = new ProviderStatsTracker();
+    stats.record("mock://slow", 60);
+    stats.record("mock://fast", 5);
+    const strategy = new AdaptiveStrategy([slow, fast], { stats });
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.metadata?.respondedBy, "mock://fast");
+    assert.strictEqual(slow.calls.length, 0);
+    assert.deepStrictEqual(
+      strategy.getProviderScores().map((score) => score.url),
+      ["mock://fast", "mock://slow"],
+    );
+  });
+
+  it("should not score providers when the caller aborts", async () => {
+    const controller = new AbortController();
+    const strategy = new AdaptiveStrategy([
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://a", latency: 100 }),
+    ]);
+
+    setTimeout(() => controller.abort(), 10);
+    await strategy.execute("eth_chainId", [], { signal: controller.signal });
+
+    assert.strictEqual(strategy.getProviderScores()[0]?.samples, 0);
+  });
+});
+
+describe("AdaptiveStrategy - Parallel Mode", () => {
+  it("should fan out to the best K providers only", async () => {
+    const transports = ["a", "b", "c"].map(
+      (name) => new MockTransport({ eth_chainId: "0x1" }, { url: `mock://${name}` }),
+    );
+    const stats = new ProviderStatsTracker();
+    stats.record("mock://a", 300);
+    stats.record("mock://b", 20);
+    stats.record("mock://c", 10);
+    const strategy = new AdaptiveStrategy(transports, { mode: "parallel", fanOut: 2, stats });
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.success, true);
+    assert.deepStrictEqual(
+      result.metadata?.responses.map((response) => response.url),
+      ["mock://c", "mock://b"],
+    );
+    assert.strictEqual(transports[0]?.calls.length, 0);
+  });
+
+  it("should record each provider once per batch", async () => {
+    const strategy = new AdaptiveStrategy(
+      [
+        new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x10" }, { url: "mock://a" }),
+        new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x10" }, { url: "mock://b" }),
+      ],
+      { mode: "parallel" },
+    );
+
+    const results = await strategy.executeBatch([
+      { method: "eth_chainId", params: [] },
+      { method: "eth_blockNumber", params: [] },
+    ]);
+
+    assert.strictEqual(results.length, 2);
+    assert.ok(results.every((result) => result.metadata?.strategy === "adaptive"));
+    assert.deepStrictEqual(
+      strategy.getProviderScores().map((score) => score.samples),
+      [1, 1],
+    );
+  });
+});
+
+describe("AdaptiveStrategy - Background Pings", () => {
+  it("should score providers from pings and stop on close", async () => {
+    const transport = new MockTransport({ eth_blockNumber: "0x1" }, { url: "mock://a" });
+    const strategy = new AdaptiveStrategy([transport], { pingInterval: 10 });
+
+    await new Promise((resolve) => setTimeout(resolve, 55));
+    strategy.close();
+    const pings = transport.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    assert.ok(pings >= 2, `Expected several pings, got ${pings}`);
+    assert.strictEqual(transport.calls.length, pings, "No pings after close");
+    assert.strictEqual(transport.calls[0]?.method, "eth_blockNumber");
+    assert.ok((strategy.getProviderScores()[0]?.samples ?? 0) >= 2);
+  });
+
+  it("should time out hung pings and keep pinging", async () => {
+    const transport = new MockTransport(() => new Promise(() => undefined), { url: "mock://hung" });
+    const strategy = new AdaptiveStrategy([transport], { pingInterval: 10, pingTimeout: 20 });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    strategy.close();
+
+    assert.ok(transport.calls.length >= 2, `Expected several pings, got ${transport.calls.length}`);
+    const [score] = strategy.getProviderScores();
+    assert.ok((score?.samples ?? 0) >= 2, "Timed out pings are recorded");
+    assert.ok((score?.errorRate ?? 0) > 0);
+  });
+});
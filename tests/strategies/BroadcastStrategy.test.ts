@@ -0,0 +1,204 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { BroadcastStrategy, isAlreadyKnownError } from "../../src/strategies/broadcastStrategy.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { NetworkClient } from "../../src/NetworkClient.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { JsonRpcError } from "../../src/RpcErrors.js";
+import { keccak256 } from "../../src/utils/keccak.js";
+
+const TX_HASH = keccak256("0xf86c");
+
+const accepting = (url: string, hash = TX_HASH) =>
+  new MockTransport({ eth_sendRawTransaction: hash }, { url });
+
+const rejecting = (url: string, message: string) =>
+  new MockTransport(
+    () => {
+      throw new JsonRpcError(-32000, message);
+    },
+    { url },
+  );
+
+describe("BroadcastStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new BroadcastStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "broadcast",
+      rpcUrls: [],
+      transports: [accepting("mock://a")],
+    });
+
+    assert.ok(strategy instanceof BroadcastStrategy);
+    assert.strictEqual(strategy.getName(), "broadcast");
+  });
+});
+
+describe("BroadcastStrategy - Execute", () => {
+  it("should send the transaction to every provider", async () => {
+    const providers = [accepting("mock://a"), accepting("mock://b"), accepting("mock://c")];
+    const strategy = new BroadcastStrategy(providers);
+
+    const result = await strategy.execute<string>("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data, TX_HASH);
+    assert.ok(providers.every((provider) => provider.calls.length === 1));
+    assert.strictEqual(result.metadata?.strategy, "broadcast");
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+    assert.strictEqual(result.metadata?.broadcast?.txHash, TX_HASH);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 3);
+  });
+
+  it("should count already known as accepted and report each provider", async () => {
+    const strategy = new BroadcastStrategy([
+      accepting("mock://a"),
+      rejecting("mock://b", "already known"),
+      rejecting("mock://c", "nonce too low"),
+    ]);
+
+    const result = await strategy.execute<string>("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 2);
+    assert.strictEqual(result.metadata?.broadcast?.total, 3);
+    assert.deepStrictEqual(
+      result.metadata?.broadcast?.providers.map((provider) => [provider.url, provider.status]),
+      [
+        ["mock://a", "accepted"],
+        ["mock://b", "known"],
+        ["mock://c", "rejected"],
+      ],
+    );
+    assert.match(result.metadata?.broadcast?.providers[2]?.error ?? "", /nonce too low/);
+  });
+
+  it("should succeed when every provider already knows the transaction", async () => {
+    const strategy = new BroadcastStrategy([
+      rejecting("mock://a", "already known"),
+      rejecting("mock://b", "Transaction already exists in the pool"),
+    ]);
+
+    const result = await strategy.execute("node_sendTx", [{}]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.broadcast?.txHash, undefined);
+  });
+
+  it("should derive the tx hash when every provider already knows a raw transaction", async () => {
+    const strategy = new BroadcastStrategy([
+      rejecting("mock://a", "already known"),
+      rejecting("mock://b", "known transaction: 0xabc"),
+    ]);
+
+    const result = await strategy.execute<string>("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data, keccak256("0xf86c"));
+    assert.strictEqual(result.metadata?.broadcast?.txHash, keccak256("0xf86c"));
+  });
+
+  it("should fail when no tx hash can be returned for a raw transaction", async () => {
+    const strategy = new BroadcastStrategy([rejecting("mock://a", "already known")]);
+
+    const result = await strategy.execute("eth_sendRawTransaction", ["not hex"]);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 1);
+  });
+
+  it("should flag providers returning different tx hashes", async () => {
+    const strategy = new BroadcastStrategy([
+      new MockTransport({ node_sendTx: TX_HASH }, { url: "mock://a" }),
+      new MockTransport({ node_sendTx: "0xdead" }, { url: "mock://b" }),
+    ]);
+
+    const result = await strategy.execute("node_sendTx", [{}]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, true);
+    assert.strictEqual(result.metadata?.broadcast?.hashMismatch, true);
+    assert.strictEqual(result.metadata?.differences?.[0]?.path, "$");
+  });
+
+  it("should reject providers returning a hash other than the derived one", async () => {
+    const strategy = new BroadcastStrategy([
+      accepting("mock://a"),
+      accepting("mock://b", "0xdead"),
+    ]);
+
+    const result = await strategy.execute<string>("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data, TX_HASH);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 1);
+    assert.strictEqual(result.metadata?.broadcast?.hashMismatch, false);
+    assert.strictEqual(result.metadata?.broadcast?.providers[1]?.status, "rejected");
+    assert.match(result.metadata?.broadcast?.providers[1]?.error ?? "", /does not match/);
+  });
+
+  it("should fail when every provider returns a different tx hash", async () => {
+    const strategy = new BroadcastStrategy([accepting("mock://a", "0xdead")]);
+
+    const result = await strategy.execute("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 0);
+  });
+
+  it("should fail when every provider rejects the transaction", async () => {
+    const strategy = new BroadcastStrategy([
+      rejecting("mock://a", "insufficient funds for gas * price + value"),
+      rejecting("mock://b", "nonce too low"),
+    ]);
+
+    const result = await strategy.execute("eth_sendRawTransaction", ["0xf86c"]);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errors?.length, 2);
+    assert.strictEqual(result.metadata?.broadcast?.accepted, 0);
+  });
+
+  it("should recognize already known messages from different clients", () => {
+    assert.ok(isAlreadyKnownError("already known"));
+    assert.ok(isAlreadyKnownError("RPC error: known transaction: 0xabc"));
+    assert.ok(isAlreadyKnownError("Transaction already imported"));
+    assert.ok(isAlreadyKnownError("tx already in mempool"));
+    assert.ok(!isAlreadyKnownError("nonce too low"));
+    assert.ok(!isAlreadyKnownError(undefined));
+  });
+});
+
+describe("BroadcastStrategy - NetworkClient", () => {
+  it("should route transaction submission to broadcast when enabled", async () => {
+    const providers = [
+      new MockTransport(
+        { eth_sendRawTransaction: TX_HASH, eth_blockNumber: "0x1" },
+        { url: "mock://a" },
+      ),
+      new MockTransport(
+        { eth_sendRawTransaction: TX_HASH, eth_blockNumber: "0x1" },
+        { url: "mock://b" },
+      ),
+    ];
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: providers,
+      broadcastTransactions: true,
+    });
+
+    const sent = await client.execute("eth_sendRawTransaction", ["0xf86c"]);
+    const blockNumber = await client.execute("eth_blockNumber");
+
+    assert.strictEqual(sent.metadata?.strategy, "broadcast");
+    assert.strictEqual(blockNumber.metadata?.strategy, "fallback");
+    assert.strictEqual(client.getStrategyFor("node_sendTx").getName(), "broadcast");
+    assert.ok(
+      providers.every((provider) => provider.calls[0]?.method === "eth_sendRawTransaction"),
+    );
+  });
+});
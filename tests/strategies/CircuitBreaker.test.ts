@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { CircuitBreaker, isProviderFailure } from "../../src/strategies/circuitBreaker.js";
+import {
+  ExecutionRevertedError,
+  HttpError,
+  JsonRpcError,
+  NetworkError,
+} from "../../src/RpcErrors.js";
+
+describe("CircuitBreaker - State Transitions", () => {
+  it("should open after consecutive failures", () => {
+    const breaker = new CircuitBreaker("mock://a", { failureThreshold: 2, cooldown: 1000 });
+
+    breaker.record(10, new NetworkError("down"), 0);
+    assert.strictEqual(breaker.getState(), "closed", "One failure should not open");
+    breaker.record(10, new NetworkError("down"), 0);
+    assert.strictEqual(breaker.getState(), "open", "Threshold reached should open");
+    assert.strictEqual(breaker.tryAcquire(500), false, "Open circuit should reject requests");
+  });
+
+  it("should reset the failure count on success", () => {
+    const breaker = new CircuitBreaker("mock://a", { failureThreshold: 2 });
+
+    breaker.record(10, new NetworkError("down"), 0);
+    breaker.record(10, undefined, 0);
+    breaker.record(10, new NetworkError("down"), 0);
+
+    assert.strictEqual(breaker.getState(), "closed");
+  });
+
+  it("should admit a single probe after the cooldown", () => {
+    const breaker = new CircuitBreaker("mock://a", { failureThreshold: 1, cooldown: 1000 });
+    breaker.record(10, new NetworkError("down"), 0);
+
+    assert.strictEqual(breaker.isAvailable(999), false);
+    assert.strictEqual(breaker.isAvailable(1000), true);
+    assert.strictEqual(breaker.tryAcquire(1000), true, "First request after cooldown is the probe");
+    assert.strictEqual(breaker.getState(), "half-open");
+    assert.strictEqual(breaker.tryAcquire(1001), false, "Only one probe at a time");
+  });
+
+  it("should close on a successful probe and re-open on a failed one", () => {
+    const breaker = new CircuitBreaker("mock://a", { failureThreshold: 1, cooldown: 1000 });
+    breaker.record(10, new NetworkError("down"), 0);
+
+    breaker.tryAcquire(1000);
+    breaker.record(10, new NetworkError("still down"), 1000);
+    assert.strictEqual(breaker.getState(), "open", "Failed probe should re-open");
+    assert.strictEqual(breaker.tryAcquire(1500), false, "Cooldown restarts after a failed probe");
+
+    breaker.tryAcquire(2000);
+    breaker.record(10, undefined, 2000);
+    assert.strictEqual(breaker.getState(), "closed", "Successful probe should close");
+  });
+});
+
+describe("CircuitBreaker - Health Stats", () => {
+  it("should report rolling error rate and latency", () => {
+    const breaker = new CircuitBreaker("mock://a", { windowSize: 4, failureThreshold: 10 });
+
+    breaker.record(100, undefined, 1);
+    breaker.record(300, undefined, 2);
+    breaker.record(50, new NetworkError("down"), 3);
+    breaker.record(50, new NetworkError("down"), 4);
+
+    const health = breaker.getHealth();
+    assert.strictEqual(health.url, "mock://a");
+    assert.strictEqual(health.errorRate, 0.5);
+    assert.strictEqual(health.averageLatency, 200);
+    assert.strictEqual(health.sampleSize, 4);
+    assert.strictEqual(health.consecutiveFailures, 2);
+    assert.strictEqual(health.lastSuccessAt, 2);
+    assert.strictEqual(health.lastFailureAt, 4);
+    assert.strictEqual(health.lastError, "down");
+  });
+
+  it("should only keep the last windowSize samples", () => {
+    const breaker = new CircuitBreaker("mock://a", { windowSize: 2, failureThreshold: 10 });
+
+    breaker.record(10, new NetworkError("down"));
+    breaker.record(10, undefined);
+    breaker.record(10, undefined);
+
+    assert.strictEqual(breaker.getHealth().errorRate, 0);
+    assert.strictEqual(breaker.getHealth().sampleSize, 2);
+  });
+
+  it("should not count deterministic JSON-RPC errors against the provider", () => {
+    assert.strictEqual(
+      isProviderFailure(new ExecutionRevertedError(3, "execution reverted")),
+      false,
+    );
+    assert.strictEqual(isProviderFailure(new JsonRpcError(-32602, "invalid params")), false);
+    assert.strictEqual(isProviderFailure(new JsonRpcError(-32005, "limit exceeded")), true);
+    assert.strictEqual(isProviderFailure(new HttpError(503, "")), true);
+    assert.strictEqual(isProviderFailure(new NetworkError("down")), true);
+  });
+});
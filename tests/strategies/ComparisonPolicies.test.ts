@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  ComparisonPolicyRegistry,
+  compareResponses,
+} from "../../src/strategies/comparisonPolicies.js";
+import { success } from "../helpers/fixtures.js";
+
+describe("ComparisonPolicies - Registry", () => {
+  it("should provide defaults for the client methods", () => {
+    const registry = new ComparisonPolicyRegistry();
+
+    assert.strictEqual(registry.get("eth_blockNumber").type, "numeric");
+    assert.strictEqual(registry.get("eth_getBlockByNumber").type, "sameBlock");
+    assert.strictEqual(registry.get("optimism_syncStatus").type, "none");
+    assert.strictEqual(registry.get("node_getBlockNumber").type, "numeric");
+    assert.strictEqual(registry.get("eth_chainId").type, "exact", "Unlisted methods are exact");
+  });
+
+  it("should match prefix patterns, preferring exact names and longer prefixes", () => {
+    const registry = new ComparisonPolicyRegistry({})
+      .register("debug_*", { type: "none" })
+      .register("debug_trace*", { type: "exact", ignoreFields: ["time"] })
+      .register("debug_traceCall", { type: "numeric" });
+
+    assert.strictEqual(registry.get("debug_storageRangeAt").type, "none");
+    assert.strictEqual(registry.get("debug_traceTransaction").type, "exact");
+    assert.strictEqual(registry.get("debug_traceCall").type, "numeric");
+    assert.strictEqual(registry.get("nodeAdmin_getConfig").type, "exact");
+  });
+});
+
+describe("ComparisonPolicies - Comparison", () => {
+  it("should allow block numbers within the tolerance", () => {
+    const policy = { type: "numeric" as const, tolerance: 2 };
+
+    const close = compareResponses([success("a", "0x10"), success("b", "0x11")], policy);
+    const far = compareResponses([success("a", "0x10"), success("b", "0x20")], policy);
+
+    assert.strictEqual(close.hasInconsistencies, false);
+    assert.strictEqual(far.hasInconsistencies, true);
+    assert.strictEqual(far.differences?.[0]?.path, "$");
+  });
+
+  it("should apply relative tolerance to nested numeric fields", () => {
+    const policy = { type: "numeric" as const, relativeTolerance: 0.1 };
+
+    const result = compareResponses(
+      [
+        success("a", { feePerDaGas: "0x64", feePerL2Gas: "1000" }),
+        success("b", { feePerDaGas: "0x60", feePerL2Gas: "1050" }),
+      ],
+      policy,
+    );
+
+    assert.strictEqual(result.hasInconsistencies, false);
+  });
+
+  it("should ignore configured fields", () => {
+    const policy = { type: "exact" as const, ignoreFields: ["totalDifficulty", "meta.time"] };
+
+    const result = compareResponses(
+      [
+        success("a", { hash: "0x1", totalDifficulty: "0x0", meta: { time: 1, ok: true } }),
+        success("b", { hash: "0x1", meta: { time: 2, ok: true } }),
+      ],
+      policy,
+    );
+
+    assert.strictEqual(result.hasInconsistencies, false);
+  });
+
+  it("should only compare responses about the same block", () => {
+    const policy = { type: "sameBlock" as const, blockField: "hash" };
+
+    const differentBlocks = compareResponses(
+      [
+        success("a", { hash: "0xaa", number: "0x1", miner: "0x1" }),
+        success("b", { hash: "0xbb", number: "0x2", miner: "0x2" }),
+      ],
+      policy,
+    );
+    const sameBlock = compareResponses(
+      [
+        success("a", { hash: "0xaa", gasUsed: "0x1" }),
+        success("b", { hash: "0xbb", gasUsed: "0x9" }),
+        success("c", { hash: "0xaa", gasUsed: "0x2" }),
+      ],
+      policy,
+    );
+
+    assert.strictEqual(differentBlocks.hasInconsistencies, false);
+    assert.strictEqual(sameBlock.hasInconsistencies, true);
+    assert.deepStrictEqual(sameBlock.differences?.[0]?.variants, [
+      { value: "0x1", providers: ["a"] },
+      { value: "0x2", providers: ["c"] },
+    ]);
+  });
+
+  it("should flag different block hashes at the same height by default", () => {
+    const policy = new ComparisonPolicyRegistry().get("eth_getBlockByNumber");
+
+    const fork = compareResponses(
+      [
+        success("a", { number: "0x66", hash: "0xaa", parentHash: "0x65" }),
+        success("b", { number: "0x66", hash: "0xbb", parentHash: "0x65" }),
+      ],
+      policy,
+    );
+    const differentHeads = compareResponses(
+      [
+        success("a", { number: "0x66", hash: "0xaa" }),
+        success("b", { number: "0x67", hash: "0xcc" }),
+      ],
+      policy,
+    );
+
+    assert.strictEqual(fork.hasInconsistencies, true);
+    assert.strictEqual(fork.differences?.[0]?.path, "$.hash");
+    assert.strictEqual(differentHeads.hasInconsistencies, false);
+  });
+
+  it("should read the block from the first element of array responses", () => {
+    const policy = { type: "sameBlock" as const, blockField: "blockHash" };
+
+    const result = compareResponses(
+      [
+        success("a", [{ blockHash: "0xaa", status: "0x1" }]),
+        success("b", [{ blockHash: "0xbb", status: "0x0" }]),
+      ],
+      policy,
+    );
+
+    assert.strictEqual(result.hasInconsistencies, false);
+  });
+
+  it("should never flag inconsistencies with the none policy", () => {
+    const result = compareResponses([success("a", "0x1"), success("b", "0x99")], { type: "none" });
+
+    assert.strictEqual(result.hasInconsistencies, false);
+  });
+});
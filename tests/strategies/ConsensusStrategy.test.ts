@@ -0,0 +1,155 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { ConsensusStrategy } from "../../src/strategies/consensusStrategy.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { EthereumClient } from "../../src/networks/1/EthereumClient.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { failing } from "../helpers/fixtures.js";
+
+const provider = (url: string, blockNumber: string, latency = 0) =>
+  new MockTransport({ eth_blockNumber: blockNumber }, { url, latency });
+
+describe("ConsensusStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new ConsensusStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should reject a quorum larger than the provider count", () => {
+    assert.throws(
+      () => new ConsensusStrategy([provider("mock://a", "0x1")], { quorum: 2 }),
+      /Quorum must be between 1 and 1/,
+    );
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "consensus",
+      rpcUrls: [],
+      transports: [provider("mock://a", "0x1")],
+    });
+
+    assert.ok(strategy instanceof ConsensusStrategy);
+    assert.strictEqual(strategy.getName(), "consensus");
+  });
+});
+
+describe("ConsensusStrategy - Execute", () => {
+  it("should return the majority value as data", async () => {
+    const strategy = new ConsensusStrategy([
+      provider("mock://a", "0x10"),
+      provider("mock://b", "0x10"),
+      provider("mock://c", "0x11"),
+    ]);
+
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data, "0x10", "Should return the agreed value, not an array");
+    assert.strictEqual(result.metadata?.strategy, "consensus");
+    assert.strictEqual(result.metadata?.consensus?.agreed, 2);
+    assert.strictEqual(result.metadata?.consensus?.quorum, 2);
+  });
+
+  it("should fail with a disagreement report when quorum is not reached", async () => {
+    const strategy = new ConsensusStrategy(
+      [provider("mock://a", "0x10"), provider("mock://b", "0x11"), provider("mock://c", "0x12")],
+      { quorum: 2 },
+    );
+
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+    const report = result.metadata?.consensus;
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.data, undefined);
+    assert.strictEqual(report?.reached, false);
+    assert.strictEqual(report?.groups.length, 3, "Should list every distinct answer");
+    assert.deepStrictEqual(
+      report?.groups.map((group) => [group.providers, group.data]),
+      [
+        [["mock://a"], "0x10"],
+        [["mock://b"], "0x11"],
+        [["mock://c"], "0x12"],
+      ],
+    );
+    assert.strictEqual(result.metadata?.hasInconsistencies, true);
+  });
+
+  it("should count failed providers against the quorum", async () => {
+    const strategy = new ConsensusStrategy([
+      provider("mock://a", "0x10"),
+      failing("mock://b"),
+      failing("mock://c"),
+    ]);
+
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errors?.filter((error) => error.status === "error").length, 2);
+  });
+
+  it("should stop early once the quorum agrees", async () => {
+    const slow = provider("mock://slow", "0x10", 500);
+    const strategy = new ConsensusStrategy(
+      [provider("mock://a", "0x10", 5), provider("mock://b", "0x10", 5), slow],
+      { quorum: 2 },
+    );
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+
+    assert.strictEqual(result.data, "0x10");
+    assert.ok(Date.now() - started < 300, "Should not wait for the slow provider");
+    assert.strictEqual(result.metadata?.responses[2]?.status, "cancelled");
+  });
+
+  it("should stop early once the quorum can no longer be reached", async () => {
+    const strategy = new ConsensusStrategy(
+      [
+        provider("mock://a", "0x10", 5),
+        provider("mock://b", "0x11", 5),
+        provider("mock://slow", "0x12", 500),
+      ],
+      { quorum: 3 },
+    );
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+
+    assert.strictEqual(result.success, false);
+    assert.ok(Date.now() - started < 300, "Should give up without the slow provider");
+  });
+});
+
+describe("ConsensusStrategy - Batch Requests", () => {
+  it("should apply the quorum per item", async () => {
+    const strategy = new ConsensusStrategy([
+      new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x10" }),
+      new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x11" }),
+      new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x12" }),
+    ]);
+
+    const [chainId, blockNumber] = await strategy.executeBatch<string>([
+      { method: "eth_chainId" },
+      { method: "eth_blockNumber" },
+    ]);
+
+    assert.strictEqual(chainId?.success, true);
+    assert.strictEqual(chainId?.data, "0x1");
+    assert.strictEqual(blockNumber?.success, false);
+    assert.strictEqual(blockNumber?.metadata?.consensus?.groups.length, 3);
+  });
+});
+
+describe("ConsensusStrategy - Typed Client Methods", () => {
+  it("should return typed values from network clients", async () => {
+    const client = new EthereumClient({
+      type: "consensus",
+      rpcUrls: [],
+      transports: [provider("mock://a", "0x10"), provider("mock://b", "0x10")],
+    });
+
+    const result = await client.blockNumber();
+
+    assert.strictEqual(result.data, "0x10");
+  });
+});
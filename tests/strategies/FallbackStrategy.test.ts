@@ -2,7 +2,16 @@ import { describe, it } from "node:test";
 import assert from "node:assert";
 import { FallbackStrategy } from "../../src/strategies/fallbackStrategy.js";
 import { RpcClient } from "../../src/RpcClient.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { ExecutionRevertedError, JsonRpcError, NetworkError } from "../../src/RpcErrors.js";
 import { isHexString } from "../helpers/validators.js";
+import {
+  never,
+  respondEach,
+  rpcError,
+  rpcResult,
+  startMockRpcServer,
+} from "../helpers/mockRpcServer.js";
 
 const TEST_URLS = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -43,7 +52,8 @@ describe("FallbackStrategy - Execute Success", () => {
     assert.strictEqual(result.success, true, "Result should be successful");
     assert.ok(result.data, "Result should have data");
     assert.ok(isHexString(result.data), "chainId should be hex string");
-    assert.strictEqual(result.metadata, undefined, "Fallback strategy should not have metadata");
+    assert.strictEqual(result.metadata?.strategy, "fallback", "Should have fallback metadata");
+    assert.ok(result.metadata?.respondedBy, "Should record the responding provider");
   });
 
   it("should execute eth_blockNumber successfully", async () => {
@@ -208,3 +218,316 @@ describe("FallbackStrategy - Different RPC Methods", () => {
     assert.ok(result.errors, "Should have errors");
   });
 });
+
+describe("FallbackStrategy - Timeouts and Abort", () => {
+  it("should move past a hung provider once its timeout elapses", async () => {
+    const hung = await startMockRpcServer(() => never());
+    const healthy = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const strategy = new FallbackStrategy([
+        new RpcClient(hung.url, { timeout: 300 }),
+        new RpcClient(healthy.url, { timeout: 300 }),
+      ]);
+
+      const result = await strategy.execute<string>("eth_chainId", []);
+
+      assert.strictEqual(result.success, true, "Should succeed with the second provider");
+      assert.strictEqual(result.data, "0x1", "Should return data from the second provider");
+    } finally {
+      await hung.close();
+      await healthy.close();
+    }
+  });
+
+  it("should report timed out providers with timeout status", async () => {
+    const hung = await startMockRpcServer(() => never());
+    try {
+      const strategy = new FallbackStrategy([new RpcClient(hung.url)]);
+
+      const result = await strategy.execute<string>("eth_chainId", [], { timeout: 30 });
+
+      assert.strictEqual(result.success, false, "Should fail");
+      assert.strictEqual(result.errors?.[0]?.status, "timeout", "Should report timeout status");
+    } finally {
+      await hung.close();
+    }
+  });
+
+  it("should stop trying providers once the caller aborts", async () => {
+    const hung = await startMockRpcServer(() => never());
+    const healthy = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const strategy = new FallbackStrategy([new RpcClient(hung.url), new RpcClient(healthy.url)]);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const result = await strategy.execute<string>("eth_chainId", [], {
+        signal: controller.signal,
+      });
+
+      assert.strictEqual(result.success, false, "Should fail after abort");
+      assert.strictEqual(result.errors?.length, 1, "Should only have tried the first provider");
+      assert.strictEqual(healthy.requests.length, 0, "Should not reach the second provider");
+    } finally {
+      await hung.close();
+      await healthy.close();
+    }
+  });
+});
+
+describe("FallbackStrategy - Batch Requests", () => {
+  it("should retry only the failed items on the next provider", async () => {
+    const partial = await startMockRpcServer(
+      respondEach((request) =>
+        request.method === "eth_blockNumber"
+          ? rpcError(request, -32000, "header not found")
+          : rpcResult(request, "0x1"),
+      ),
+    );
+    const complete = await startMockRpcServer(respondEach((request) => rpcResult(request, "0x2")));
+    try {
+      const strategy = new FallbackStrategy([
+        new RpcClient(partial.url),
+        new RpcClient(complete.url),
+      ]);
+
+      const results = await strategy.executeBatch<string>([
+        { method: "eth_chainId" },
+        { method: "eth_blockNumber" },
+      ]);
+
+      assert.deepStrictEqual(
+        results.map((r) => r.data),
+        ["0x1", "0x2"],
+        "Each item should come from the first provider that answered it",
+      );
+      assert.strictEqual(complete.requests[0]?.length, 1, "Only the failed item should be retried");
+      assert.strictEqual(complete.requests[0]?.[0]?.method, "eth_blockNumber");
+    } finally {
+      await partial.close();
+      await complete.close();
+    }
+  });
+
+  it("should return per-item errors when every provider fails", async () => {
+    const server = await startMockRpcServer(
+      respondEach((request) => rpcError(request, -32000, "boom")),
+    );
+    try {
+      const strategy = new FallbackStrategy([new RpcClient(server.url)]);
+
+      const [result] = await strategy.executeBatch([{ method: "eth_chainId" }]);
+
+      assert.strictEqual(result?.success, false, "Item should fail");
+      assert.strictEqual(result?.errors?.length, 1, "Should have one error per provider tried");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("FallbackStrategy - Structured Errors", () => {
+  it("should expose structured errors for every failed provider", async () => {
+    const strategy = new FallbackStrategy([
+      new MockTransport(
+        () => {
+          throw new NetworkError("connection refused", "mock://down");
+        },
+        { url: "mock://down" },
+      ),
+      new MockTransport({}, { url: "mock://old" }),
+    ]);
+
+    const result = await strategy.execute<string>("eth_blobBaseFee", []);
+
+    assert.strictEqual(result.success, false, "Should fail");
+    const [down, old] = result.errors ?? [];
+    assert.ok(down?.rpcError instanceof NetworkError, "Provider down should be a NetworkError");
+    assert.ok(old?.rpcError instanceof JsonRpcError, "Unsupported method should be JSON-RPC");
+    assert.strictEqual(old.rpcError.isMethodNotFound, true, "Should flag method not found");
+    assert.match(old.error ?? "", /does not exist/, "Should keep the string message");
+  });
+
+  it("should keep revert data on execution reverted errors", async () => {
+    const strategy = new FallbackStrategy([
+      new MockTransport(() => {
+        throw new ExecutionRevertedError(3, "execution reverted", "0x08c379a0");
+      }),
+    ]);
+
+    const result = await strategy.execute<string>("eth_call", [{}, "latest"]);
+
+    const rpcError = result.errors?.[0]?.rpcError;
+    assert.ok(rpcError instanceof ExecutionRevertedError, "Should be a revert");
+    assert.strictEqual(rpcError.revertData, "0x08c379a0", "Should expose revert data");
+  });
+});
+
+describe("FallbackStrategy - Circuit Breaker", () => {
+  const down = () =>
+    new MockTransport(
+      () => {
+        throw new NetworkError("connection refused", "mock://down");
+      },
+      { url: "mock://down" },
+    );
+
+  it("should skip a provider once its circuit is open", async () => {
+    const dead = down();
+    const healthy = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://healthy" });
+    const strategy = new FallbackStrategy([dead, healthy], {
+      circuitBreaker: { failureThreshold: 2, cooldown: 60_000 },
+    });
+
+    for (let i = 0; i < 5; i++) {
+      const result = await strategy.execute<string>("eth_chainId", []);
+      assert.strictEqual(result.success, true, "Should succeed via the healthy provider");
+    }
+
+    assert.strictEqual(dead.calls.length, 2, "Dead provider should only be tried until it opens");
+    assert.strictEqual(healthy.calls.length, 5);
+    const [deadHealth, healthyHealth] = strategy.getProviderHealth();
+    assert.strictEqual(deadHealth?.state, "open");
+    assert.strictEqual(deadHealth?.errorRate, 1);
+    assert.strictEqual(healthyHealth?.state, "closed");
+  });
+
+  it("should re-probe an open provider after the cooldown", async () => {
+    let failing = true;
+    const flaky = new MockTransport(
+      () => {
+        if (failing) throw new NetworkError("connection refused", "mock://flaky");
+        return "0x1";
+      },
+      { url: "mock://flaky" },
+    );
+    const backup = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://backup" });
+    const strategy = new FallbackStrategy([flaky, backup], {
+      circuitBreaker: { failureThreshold: 1, cooldown: 50 },
+    });
+
+    await strategy.execute("eth_chainId", []);
+    await strategy.execute("eth_chainId", []);
+    assert.strictEqual(flaky.calls.length, 1, "Open circuit should be skipped");
+
+    failing = false;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(flaky.calls.length, 2, "Should probe after the cooldown");
+    assert.strictEqual(strategy.getProviderHealth()[0]?.state, "closed");
+  });
+
+  it("should try every provider when all circuits are open", async () => {
+    const first = down();
+    const second = down();
+    const strategy = new FallbackStrategy([first, second], {
+      circuitBreaker: { failureThreshold: 1, cooldown: 60_000 },
+    });
+
+    await strategy.execute("eth_chainId", []);
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errors?.length, 2, "Should still report every provider");
+    assert.strictEqual(first.calls.length, 2);
+  });
+
+  it("should not open the circuit on execution reverted", async () => {
+    const reverting = new MockTransport(() => {
+      throw new ExecutionRevertedError(3, "execution reverted");
+    });
+    const strategy = new FallbackStrategy([reverting], { circuitBreaker: { failureThreshold: 1 } });
+
+    await strategy.execute("eth_call", [{}, "latest"]);
+    await strategy.execute("eth_call", [{}, "latest"]);
+
+    assert.strictEqual(strategy.getProviderHealth()[0]?.state, "closed");
+    assert.strictEqual(reverting.calls.length, 2);
+  });
+
+  it("should always try every provider when disabled", async () => {
+    const dead = down();
+    const healthy = new MockTransport({ eth_chainId: "0x1" });
+    const strategy = new FallbackStrategy([dead, healthy], { circuitBreaker: false });
+
+    for (let i = 0; i < 4; i++) {
+      await strategy.execute("eth_chainId", []);
+    }
+
+    assert.strictEqual(dead.calls.length, 4);
+    assert.deepStrictEqual(strategy.getProviderHealth(), []);
+  });
+});
+
+describe("FallbackStrategy - Metadata", () => {
+  const down = (url: string) =>
+    new MockTransport(
+      () => {
+        throw new NetworkError("connection refused", url);
+      },
+      { url },
+    );
+
+  it("should record the responding provider and the failed attempts before it", async () => {
+    const strategy = new FallbackStrategy(
+      [
+        down("mock://first"),
+        down("mock://second"),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://third", latency: 10 }),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fourth" }),
+      ],
+      { circuitBreaker: false },
+    );
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+    const metadata = result.metadata;
+
+    assert.strictEqual(result.data, "0x1");
+    assert.strictEqual(metadata?.strategy, "fallback");
+    assert.strictEqual(metadata?.respondedBy, "mock://third");
+    assert.strictEqual(metadata?.hasInconsistencies, false);
+    assert.ok(typeof metadata?.timestamp === "number");
+    assert.deepStrictEqual(
+      metadata?.responses.map((response) => [response.url, response.status]),
+      [
+        ["mock://first", "error"],
+        ["mock://second", "error"],
+        ["mock://third", "success"],
+      ],
+      "Should list attempts in order, ending with the responding provider",
+    );
+    assert.ok((metadata?.responses[2]?.responseTime ?? 0) >= 5, "Should record latency");
+    assert.ok(metadata?.responses[0]?.rpcError instanceof NetworkError);
+  });
+
+  it("should include metadata when every provider fails", async () => {
+    const strategy = new FallbackStrategy([down("mock://a"), down("mock://b")]);
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.metadata?.respondedBy, undefined);
+    assert.strictEqual(result.metadata?.responses.length, 2);
+  });
+
+  it("should record provenance per batch item", async () => {
+    const strategy = new FallbackStrategy([
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://partial" }),
+      new MockTransport({ eth_chainId: "0x1", eth_blockNumber: "0x10" }, { url: "mock://full" }),
+    ]);
+
+    const [chainId, blockNumber] = await strategy.executeBatch<string>([
+      { method: "eth_chainId" },
+      { method: "eth_blockNumber" },
+    ]);
+
+    assert.strictEqual(chainId?.metadata?.respondedBy, "mock://partial");
+    assert.strictEqual(chainId?.metadata?.responses.length, 1);
+    assert.strictEqual(blockNumber?.metadata?.respondedBy, "mock://full");
+    assert.deepStrictEqual(
+      blockNumber?.metadata?.responses.map((response) => response.status),
+      ["error", "success"],
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { HedgedStrategy } from "../../src/strategies/hedgedStrategy.js";
+import { ParallelStrategy } from "../../src/strategies/parallelStrategy.js";
+import { ProviderStatsTracker } from "../../src/strategies/providerStats.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { failing } from "../helpers/fixtures.js";
+
+describe("HedgedStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new HedgedStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "hedged",
+      rpcUrls: [],
+      transports: [new MockTransport({})],
+      hedge: { maxHedges: 2 },
+    });
+
+    assert.ok(strategy instanceof HedgedStrategy);
+    assert.strictEqual(strategy.getName(), "hedged");
+  });
+});
+
+describe("HedgedStrategy - Execute", () => {
+  it("should not hedge when the first provider answers in time", async () => {
+    const first = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://first", latency: 5 });
+    const second = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://second" });
+    const strategy = new HedgedStrategy([first, second], { hedgeDelay: 100 });
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.data, "0x1");
+    assert.strictEqual(result.metadata?.strategy, "hedged");
+    assert.strictEqual(result.metadata?.respondedBy, "mock://first");
+    assert.strictEqual(second.calls.length, 0, "No hedge should be sent");
+  });
+
+  it("should hedge to the next provider after the delay and take the first answer", async () => {
+    const slow = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 300 });
+    const fast = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 });
+    const strategy = new HedgedStrategy([slow, fast], { hedgeDelay: 20 });
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.metadata?.respondedBy, "mock://fast");
+    assert.ok(Date.now() - started < 200, "Should not wait for the slow provider");
+    assert.deepStrictEqual(
+      result.metadata?.responses.map((response) => [response.url, response.status]),
+      [
+        ["mock://slow", "cancelled"],
+        ["mock://fast", "success"],
+      ],
+    );
+  });
+
+  it("should send at most maxHedges hedges", async () => {
+    const transports = ["a", "b", "c"].map(
+      (name) => new MockTransport({ eth_chainId: "0x1" }, { url: `mock://${name}`, latency: 80 }),
+    );
+    const strategy = new HedgedStrategy(transports, { hedgeDelay: 10, maxHedges: 1 });
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.respondedBy, "mock://a");
+    assert.strictEqual(transports[2]?.calls.length, 0, "Third provider should not be hedged to");
+  });
+
+  it("should move on at once when a provider fails", async () => {
+    const strategy = new HedgedStrategy(
+      [failing("mock://down"), new MockTransport({ eth_chainId: "0x1" }, { url: "mock://up" })],
+      { hedgeDelay: 1000, maxHedges: 0 },
+    );
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.data, "0x1");
+    assert.ok(Date.now() - started < 500, "Failure should not wait for the hedge delay");
+    assert.strictEqual(result.metadata?.responses[0]?.status, "error");
+  });
+
+  it("should fail when every provider fails", async () => {
+    const strategy = new HedgedStrategy([failing("mock://a"), failing("mock://b")]);
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errors?.length, 2);
+    assert.strictEqual(result.metadata?.respondedBy, undefined);
+  });
+
+  it("should derive the hedge delay from the provider's latency percentile", async () => {
+    const stats = new ProviderStatsTracker();
+    for (const latency of [10, 10, 10, 10]) {
+      stats.record("mock://first", latency);
+    }
+    stats.record("mock://second", 50);
+    const first = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://first", latency: 200 });
+    const second = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://second", latency: 5 });
+    const strategy = new HedgedStrategy([second, first], { stats, initialHedgeDelay: 5000 });
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.metadata?.responses[0]?.url, "mock://first", "Best provider first");
+    assert.strictEqual(result.metadata?.respondedBy, "mock://second");
+    assert.ok(Date.now() - started < 150, "Hedge should fire after the p95 latency");
+  });
+
+  it("should reuse response times measured by the parallel strategy", async () => {
+    const stats = new ProviderStatsTracker();
+    const transports = [
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 60 }),
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 }),
+    ];
+    await new ParallelStrategy(transports, { stats }).execute("eth_chainId", []);
+
+    const strategy = new HedgedStrategy(transports, { stats });
+
+    assert.deepStrictEqual(
+      strategy.getProviderScores().map((score) => score.url),
+      ["mock://fast", "mock://slow"],
+    );
+  });
+
+  it("should share the stats from the config between factory-built strategies", async () => {
+    const stats = new ProviderStatsTracker();
+    const transports = [
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 60 }),
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 }),
+    ];
+    const config = { rpcUrls: [], transports, stats };
+    await StrategyFactory.create({ ...config, type: "parallel" }).execute("eth_chainId", []);
+
+    const strategy = StrategyFactory.create({ ...config, type: "hedged" }) as HedgedStrategy;
+
+    assert.deepStrictEqual(
+      strategy.getProviderScores().map((score) => score.url),
+      ["mock://fast", "mock://slow"],
+    );
+  });
+});
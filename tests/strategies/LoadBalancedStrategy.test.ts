@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { LoadBalancedStrategy } from "../../src/strategies/loadBalancedStrategy.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { failing } from "../helpers/fixtures.js";
+
+const provider = (url: string) => new MockTransport({ eth_chainId: "0x1" }, { url });
+
+async function run(strategy: LoadBalancedStrategy, count: number): Promise<(string | undefined)[]> {
+  const respondedBy: (string | undefined)[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await strategy.execute("eth_chainId", []);
+    respondedBy.push(result.metadata?.respondedBy);
+  }
+  return respondedBy;
+}
+
+describe("LoadBalancedStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new LoadBalancedStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "balanced",
+      rpcUrls: [],
+      transports: [provider("mock://a")],
+      balance: { providers: { "mock://a": { weight: 2 } } },
+    });
+
+    assert.ok(strategy instanceof LoadBalancedStrategy);
+    assert.strictEqual(strategy.getName(), "balanced");
+  });
+});
+
+describe("LoadBalancedStrategy - Weighted Round-Robin", () => {
+  it("should alternate between providers with equal weights", async () => {
+    const strategy = new LoadBalancedStrategy([provider("mock://a"), provider("mock://b")]);
+
+    assert.deepStrictEqual(await run(strategy, 4), [
+      "mock://a",
+      "mock://b",
+      "mock://a",
+      "mock://b",
+    ]);
+  });
+
+  it("should spread requests by weight", async () => {
+    const strategy = new LoadBalancedStrategy([provider("mock://a"), provider("mock://b")], {
+      providers: { "mock://a": { weight: 3 }, "mock://b": { weight: 1 } },
+    });
+
+    const respondedBy = await run(strategy, 8);
+
+    assert.strictEqual(respondedBy.filter((url) => url === "mock://a").length, 6);
+    assert.strictEqual(respondedBy.filter((url) => url === "mock://b").length, 2);
+  });
+
+  it("should only send fallback traffic to providers with weight 0", async () => {
+    const backup = provider("mock://backup");
+    const strategy = new LoadBalancedStrategy([provider("mock://main"), backup], {
+      providers: { "mock://backup": { weight: 0 } },
+    });
+
+    await run(strategy, 3);
+
+    assert.strictEqual(backup.calls.length, 0);
+  });
+
+  it("should fall back to the next provider when the picked one fails", async () => {
+    const strategy = new LoadBalancedStrategy([failing("mock://down"), provider("mock://up")]);
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.strategy, "balanced");
+    assert.deepStrictEqual(
+      result.metadata?.responses.map((response) => [response.url, response.status]),
+      [
+        ["mock://down", "error"],
+        ["mock://up", "success"],
+      ],
+    );
+  });
+
+  it("should not count requests cancelled by the caller as failures", async () => {
+    const slow = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 50 });
+    const strategy = new LoadBalancedStrategy([slow]);
+
+    const result = await strategy.execute("eth_chainId", [], { signal: AbortSignal.timeout(10) });
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(strategy.getProviderUsage()[0]?.failures, 0);
+  });
+});
+
+describe("LoadBalancedStrategy - Budgets", () => {
+  it("should skip providers over their requests per second", async () => {
+    const strategy = new LoadBalancedStrategy(
+      [provider("mock://limited"), provider("mock://other")],
+      {
+        providers: { "mock://limited": { weight: 10, requestsPerSecond: 1 } },
+      },
+    );
+
+    assert.deepStrictEqual(await run(strategy, 3), [
+      "mock://limited",
+      "mock://other",
+      "mock://other",
+    ]);
+  });
+
+  it("should stop at the monthly credit cap using method credits", async () => {
+    const strategy = new LoadBalancedStrategy([provider("mock://paid")], {
+      providers: { "mock://paid": { monthlyCredits: 25 } },
+      methodCredits: { eth_chainId: 10 },
+    });
+
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await strategy.execute("eth_chainId", []));
+    }
+
+    assert.deepStrictEqual(
+      results.map((result) => result.success),
+      [true, true, false],
+    );
+    assert.match(results[2]?.errors?.[0]?.error ?? "", /budget exhausted/);
+  });
+
+  it("should expose usage counters", async () => {
+    const strategy = new LoadBalancedStrategy([failing("mock://down"), provider("mock://up")], {
+      providers: { "mock://up": { monthlyCredits: 100, requestsPerSecond: 50 } },
+    });
+
+    await run(strategy, 2);
+    const [down, up] = strategy.getProviderUsage();
+
+    assert.strictEqual(down?.requests, 1);
+    assert.strictEqual(down?.failures, 1);
+    assert.strictEqual(up?.requests, 2);
+    assert.strictEqual(up?.failures, 0);
+    assert.strictEqual(up?.monthlyCredits, 2);
+    assert.strictEqual(up?.monthlyCreditLimit, 100);
+    assert.strictEqual(up?.requestsLastSecond, 2);
+    assert.strictEqual(up?.exhausted, false);
+    assert.match(up?.month ?? "", /^\d{4}-\d{2}$/);
+  });
+});
@@ -2,6 +2,14 @@ import { describe, it } from "node:test";
 import assert from "node:assert";
 import { ParallelStrategy } from "../../src/strategies/parallelStrategy.js";
 import { RpcClient } from "../../src/RpcClient.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import {
+  never,
+  respondEach,
+  rpcError,
+  rpcResult,
+  startMockRpcServer,
+} from "../helpers/mockRpcServer.js";
 
 const TEST_URLS = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -312,3 +320,250 @@ describe("ParallelStrategy - Performance Metrics", () => {
     }
   });
 });
+
+describe("ParallelStrategy - Timeouts", () => {
+  it("should resolve even when one provider hangs", async () => {
+    const hung = await startMockRpcServer(() => never());
+    const healthy = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const strategy = new ParallelStrategy([new RpcClient(hung.url), new RpcClient(healthy.url)]);
+
+      const result = await strategy.execute<string>("eth_chainId", [], { timeout: 300 });
+
+      assert.strictEqual(result.success, true, "Should succeed with the healthy provider");
+      assert.ok(result.metadata, "Should have metadata");
+      const [hungResponse, healthyResponse] = result.metadata.responses;
+      assert.strictEqual(hungResponse?.status, "timeout", "Hung provider should time out");
+      assert.strictEqual(healthyResponse?.status, "success", "Healthy provider should succeed");
+    } finally {
+      await hung.close();
+      await healthy.close();
+    }
+  });
+});
+
+describe("ParallelStrategy - Batch Requests", () => {
+  it("should report per-item responses and inconsistencies", async () => {
+    const first = await startMockRpcServer(respondEach((request) => rpcResult(request, "0x1")));
+    const second = await startMockRpcServer(
+      respondEach((request) =>
+        request.method === "eth_chainId"
+          ? rpcResult(request, "0x1")
+          : rpcError(request, -32000, "header not found"),
+      ),
+    );
+    try {
+      const strategy = new ParallelStrategy([new RpcClient(first.url), new RpcClient(second.url)]);
+
+      const [chainId, blockNumber] = await strategy.executeBatch([
+        { method: "eth_chainId" },
+        { method: "eth_blockNumber" },
+      ]);
+
+      assert.strictEqual(first.requests.length, 1, "Each provider should get one HTTP request");
+      assert.strictEqual(chainId?.success, true, "chainId should succeed");
+      assert.strictEqual(chainId?.metadata?.hasInconsistencies, false, "chainId should agree");
+      assert.strictEqual(blockNumber?.success, true, "blockNumber should succeed on one provider");
+      assert.deepStrictEqual(
+        blockNumber?.metadata?.responses.map((r) => r.status),
+        ["success", "error"],
+        "blockNumber should record per-provider status",
+      );
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it("should not contact providers for an empty batch", async () => {
+    const transport = new MockTransport({});
+    const strategy = new ParallelStrategy([transport]);
+
+    assert.deepStrictEqual(await strategy.executeBatch([]), []);
+    assert.strictEqual(transport.calls.length, 0);
+  });
+});
+
+describe("ParallelStrategy - Response Differences", () => {
+  it("should report where and how providers disagreed", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport(
+        { eth_getBlockByNumber: { number: "0x10", miner: "0xAA", gasUsed: "0x1" } },
+        { url: "mock://a" },
+      ),
+      new MockTransport(
+        { eth_getBlockByNumber: { number: "0x10", miner: "0xaa", gasUsed: "0x2" } },
+        { url: "mock://b" },
+      ),
+    ]);
+
+    const result = await strategy.execute("eth_getBlockByNumber", ["0x10", false]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, true);
+    assert.deepStrictEqual(result.metadata?.differences, [
+      {
+        path: "$.gasUsed",
+        variants: [
+          { value: "0x1", providers: ["mock://a"] },
+          { value: "0x2", providers: ["mock://b"] },
+        ],
+      },
+    ]);
+  });
+
+  it("should treat hex case and leading zeros as equal", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport({ eth_getBalance: "0x0DE0B6B3A7640000" }),
+      new MockTransport({ eth_getBalance: "0xde0b6b3a7640000" }),
+    ]);
+
+    const result = await strategy.execute("eth_getBalance", ["0x0", "latest"]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+    assert.strictEqual(result.metadata?.differences, undefined);
+  });
+
+  it("should detect differences in nested fields", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport({ eth_getLogs: [{ topics: ["0x1"], data: "0x01" }] }),
+      new MockTransport({ eth_getLogs: [{ topics: ["0x1"], data: "0x02" }] }),
+    ]);
+
+    const result = await strategy.execute("eth_getLogs", [{}]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, true);
+    assert.strictEqual(result.metadata?.differences?.[0]?.path, "$[0].data");
+  });
+});
+
+describe("ParallelStrategy - Comparison Policies", () => {
+  it("should not flag block numbers one block apart", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport({ eth_blockNumber: "0x100" }),
+      new MockTransport({ eth_blockNumber: "0x101" }),
+    ]);
+
+    const result = await strategy.execute("eth_blockNumber", []);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+  });
+
+  it("should not flag latest blocks at different heights", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport({ eth_getBlockByNumber: { hash: "0xaa", number: "0x100" } }),
+      new MockTransport({ eth_getBlockByNumber: { hash: "0xbb", number: "0x101" } }),
+    ]);
+
+    const result = await strategy.execute("eth_getBlockByNumber", ["latest", false]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+  });
+
+  it("should ignore totalDifficulty on the same block", async () => {
+    const strategy = new ParallelStrategy([
+      new MockTransport({ eth_getBlockByHash: { hash: "0xaa", totalDifficulty: "0x0" } }),
+      new MockTransport({ eth_getBlockByHash: { hash: "0xaa" } }),
+    ]);
+
+    const result = await strategy.execute("eth_getBlockByHash", ["0xaa", false]);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+  });
+
+  it("should let callers override policies per method", async () => {
+    const strategy = new ParallelStrategy(
+      [
+        new MockTransport({ eth_blockNumber: "0x100" }),
+        new MockTransport({ eth_blockNumber: "0x101" }),
+      ],
+      { comparisonPolicies: { eth_blockNumber: { type: "exact" } } },
+    );
+
+    const result = await strategy.execute("eth_blockNumber", []);
+
+    assert.strictEqual(result.metadata?.hasInconsistencies, true);
+  });
+});
+
+describe("ParallelStrategy - Block Pinning", () => {
+  const provider = (url: string, head: number, finalized: number) =>
+    new MockTransport(
+      {
+        eth_blockNumber: `0x${head.toString(16)}`,
+        eth_getBlockByNumber: (params) =>
+          params[0] === "finalized" ? { number: `0x${finalized.toString(16)}` } : null,
+        eth_getBalance: (params) => `balance@${params[1]}`,
+        eth_chainId: "0x1",
+      },
+      { url },
+    );
+
+  it("should pin latest to the lowest provider head", async () => {
+    const a = provider("mock://a", 105, 90);
+    const b = provider("mock://b", 103, 91);
+    const strategy = new ParallelStrategy([a, b], { pinBlock: "head" });
+
+    const result = await strategy.execute<any>("eth_getBalance", ["0xabc", "latest"]);
+
+    assert.deepStrictEqual(result.metadata?.pinnedBlock, { mode: "head", number: "0x67" });
+    assert.deepStrictEqual(
+      result.metadata?.responses.map((response) => response.data),
+      ["balance@0x67", "balance@0x67"],
+    );
+    assert.strictEqual(result.metadata?.hasInconsistencies, false);
+    assert.deepStrictEqual(a.calls.at(-1)?.params, ["0xabc", "0x67"]);
+  });
+
+  it("should pin to the lowest finalized block", async () => {
+    const strategy = new ParallelStrategy(
+      [provider("mock://a", 105, 90), provider("mock://b", 103, 91)],
+      { pinBlock: "finalized" },
+    );
+
+    const result = await strategy.execute<any>("eth_getBalance", ["0xabc", "latest"]);
+
+    assert.deepStrictEqual(result.metadata?.pinnedBlock, { mode: "finalized", number: "0x5a" });
+  });
+
+  it("should leave explicit block numbers and other methods untouched", async () => {
+    const a = provider("mock://a", 105, 90);
+    const strategy = new ParallelStrategy([a], { pinBlock: "head" });
+
+    const explicit = await strategy.execute<any>("eth_getBalance", ["0xabc", "0x10"]);
+    const other = await strategy.execute<any>("eth_chainId", []);
+
+    assert.strictEqual(explicit.metadata?.pinnedBlock, undefined);
+    assert.strictEqual(other.metadata?.pinnedBlock, undefined);
+    assert.deepStrictEqual(
+      a.calls.map((call) => call.method),
+      ["eth_getBalance", "eth_chainId"],
+      "Should not resolve a block when nothing needs pinning",
+    );
+  });
+
+  it("should not pin without the option", async () => {
+    const a = provider("mock://a", 105, 90);
+    const strategy = new ParallelStrategy([a]);
+
+    const result = await strategy.execute<any>("eth_getBalance", ["0xabc", "latest"]);
+
+    assert.strictEqual(result.metadata?.pinnedBlock, undefined);
+    assert.deepStrictEqual(a.calls.at(-1)?.params, ["0xabc", "latest"]);
+  });
+
+  it("should pin every batch item to the same block", async () => {
+    const strategy = new ParallelStrategy(
+      [provider("mock://a", 105, 90), provider("mock://b", 100, 91)],
+      { pinBlock: "head" },
+    );
+
+    const [balance, chainId] = await strategy.executeBatch<any>([
+      { method: "eth_getBalance", params: ["0xabc", "latest"] },
+      { method: "eth_chainId" },
+    ]);
+
+    assert.strictEqual(balance?.metadata?.pinnedBlock?.number, "0x64");
+    assert.strictEqual(balance?.metadata?.responses[0]?.data, "balance@0x64");
+    assert.strictEqual(chainId?.metadata?.pinnedBlock, undefined);
+  });
+});
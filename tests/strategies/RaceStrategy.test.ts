@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { RaceStrategy } from "../../src/strategies/raceStrategy.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { NetworkError } from "../../src/RpcErrors.js";
+import { never, rpcResult, startMockRpcServer } from "../helpers/mockRpcServer.js";
+import { failing } from "../helpers/fixtures.js";
+
+describe("RaceStrategy - Constructor", () => {
+  it("should throw error with empty RPC clients array", () => {
+    assert.throws(() => new RaceStrategy([]), /At least one RPC client must be provided/);
+  });
+
+  it("should be created by StrategyFactory", () => {
+    const strategy = StrategyFactory.create({
+      type: "race",
+      rpcUrls: [],
+      transports: [new MockTransport({})],
+    });
+
+    assert.ok(strategy instanceof RaceStrategy);
+    assert.strictEqual(strategy.getName(), "race");
+  });
+});
+
+describe("RaceStrategy - Execute", () => {
+  it("should resolve with the fastest successful provider", async () => {
+    const strategy = new RaceStrategy([
+      new MockTransport({ eth_blockNumber: "0x2" }, { url: "mock://slow", latency: 200 }),
+      new MockTransport({ eth_blockNumber: "0x1" }, { url: "mock://fast", latency: 5 }),
+    ]);
+
+    const started = Date.now();
+    const result = await strategy.execute<string>("eth_blockNumber", []);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data, "0x1", "Should return the fastest response");
+    assert.ok(Date.now() - started < 150, "Should not wait for the slow provider");
+    assert.strictEqual(result.metadata?.strategy, "race");
+    assert.strictEqual(result.metadata?.respondedBy, "mock://fast");
+  });
+
+  it("should report losers as cancelled with their timings", async () => {
+    const strategy = new RaceStrategy([
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://slow", latency: 500 }),
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 }),
+    ]);
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+    const [slow, fast] = result.metadata?.responses ?? [];
+
+    assert.strictEqual(fast?.status, "success");
+    assert.strictEqual(slow?.status, "cancelled", "Loser should be cancelled");
+    assert.ok(typeof slow?.responseTime === "number", "Loser should have a timing");
+    assert.ok((slow?.responseTime ?? 0) < 500, "Loser should be cut short");
+  });
+
+  it("should ignore failures while another provider can still win", async () => {
+    const strategy = new RaceStrategy([
+      failing("mock://down"),
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://up", latency: 20 }),
+    ]);
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata?.respondedBy, "mock://up");
+    assert.strictEqual(result.metadata?.responses[0]?.status, "error");
+  });
+
+  it("should fail when every provider fails", async () => {
+    const strategy = new RaceStrategy([failing("mock://a"), failing("mock://b")]);
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errors?.length, 2);
+    assert.ok(result.errors?.every((error) => error.rpcError instanceof NetworkError));
+    assert.strictEqual(result.metadata?.respondedBy, undefined);
+  });
+
+  it("should only race the first N providers", async () => {
+    const third = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://c" });
+    const strategy = new RaceStrategy(
+      [
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://a", latency: 10 }),
+        new MockTransport({ eth_chainId: "0x1" }, { url: "mock://b", latency: 10 }),
+        third,
+      ],
+      { maxProviders: 2 },
+    );
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.strictEqual(result.metadata?.responses.length, 2);
+    assert.strictEqual(third.calls.length, 0, "Providers beyond N should not be called");
+  });
+
+  it("should abort the losing HTTP request", async () => {
+    let aborted = false;
+    const slow = await startMockRpcServer(async (_body, res) => {
+      res.on("close", () => {
+        aborted = !res.writableEnded;
+      });
+      return never();
+    });
+    const fast = await startMockRpcServer((body) => rpcResult(body, "0x1"));
+    try {
+      const strategy = StrategyFactory.create({ type: "race", rpcUrls: [slow.url, fast.url] });
+
+      const result = await strategy.execute<string>("eth_chainId", []);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      assert.strictEqual(result.data, "0x1");
+      assert.strictEqual(aborted, true, "Losing request should be aborted");
+    } finally {
+      await slow.close();
+      await fast.close();
+    }
+  });
+});
+
+describe("RaceStrategy - Batch Requests", () => {
+  it("should take each item from the first provider that answers it", async () => {
+    const strategy = new RaceStrategy([
+      new MockTransport({ eth_chainId: "0x1" }, { url: "mock://fast", latency: 5 }),
+      new MockTransport(
+        { eth_chainId: "0x1", eth_blockNumber: "0x10" },
+        { url: "mock://complete", latency: 30 },
+      ),
+    ]);
+
+    const results = await strategy.executeBatch<string>([
+      { method: "eth_chainId" },
+      { method: "eth_blockNumber" },
+    ]);
+
+    assert.strictEqual(results[0]?.data, "0x1");
+    assert.strictEqual(results[0]?.metadata?.respondedBy, "mock://fast");
+    assert.strictEqual(results[1]?.data, "0x10");
+    assert.strictEqual(results[1]?.metadata?.respondedBy, "mock://complete");
+  });
+});
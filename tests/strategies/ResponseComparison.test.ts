@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  canonicalStringify,
+  diffResponses,
+  hashResponse,
+} from "../../src/strategies/responseComparison.js";
+import { success } from "../helpers/fixtures.js";
+
+describe("ResponseComparison - Canonical Serialization", () => {
+  it("should sort keys at every level", () => {
+    const a = { b: 1, a: { d: [{ y: 1, x: 2 }], c: 3 } };
+    const b = { a: { c: 3, d: [{ x: 2, y: 1 }] }, b: 1 };
+
+    assert.strictEqual(canonicalStringify(a), canonicalStringify(b));
+    assert.strictEqual(canonicalStringify(a), '{"a":{"c":3,"d":[{"x":2,"y":1}]},"b":1}');
+  });
+
+  it("should normalize hex case and leading zeros", () => {
+    assert.strictEqual(canonicalStringify({ n: "0x0A" }), canonicalStringify({ n: "0xa" }));
+    assert.strictEqual(canonicalStringify("0x000"), '"0x0"');
+    assert.strictEqual(canonicalStringify("0x"), '"0x"', "Empty data should stay empty");
+  });
+
+  it("should keep nested fields that the top level does not have", () => {
+    const a = { block: { number: "0x1", extra: "a" } };
+    const b = { block: { number: "0x1", extra: "b" } };
+
+    assert.notStrictEqual(hashResponse(a), hashResponse(b));
+  });
+});
+
+describe("ResponseComparison - Hashing", () => {
+  it("should hash equivalent responses identically", () => {
+    assert.strictEqual(
+      hashResponse({ hash: "0xABC", number: "0x01" }),
+      hashResponse({ number: "0x1", hash: "0xabc" }),
+    );
+  });
+
+  it("should produce a non-empty hash for every value", () => {
+    for (const value of [null, undefined, 0, "", [], {}]) {
+      assert.match(hashResponse(value), /^[0-9a-f]{28}$/);
+    }
+    assert.notStrictEqual(hashResponse(null), hashResponse({}));
+  });
+});
+
+describe("ResponseComparison - Differences", () => {
+  it("should list the paths where providers disagree", () => {
+    const differences = diffResponses([
+      success("mock://a", { number: "0x1", transactions: [{ gas: "0x5208" }] }),
+      success("mock://b", { number: "0x01", transactions: [{ gas: "0x5209" }] }),
+      success("mock://c", { number: "0x1", transactions: [{ gas: "0x5208" }] }),
+    ]);
+
+    assert.deepStrictEqual(differences, [
+      {
+        path: "$.transactions[0].gas",
+        variants: [
+          { value: "0x5208", providers: ["mock://a", "mock://c"] },
+          { value: "0x5209", providers: ["mock://b"] },
+        ],
+      },
+    ]);
+  });
+
+  it("should report missing fields as undefined variants", () => {
+    const differences = diffResponses([
+      success("mock://a", { totalDifficulty: "0x0", number: "0x1" }),
+      success("mock://b", { number: "0x1" }),
+    ]);
+
+    assert.deepStrictEqual(differences, [
+      {
+        path: "$.totalDifficulty",
+        variants: [
+          { value: "0x0", providers: ["mock://a"] },
+          { value: undefined, providers: ["mock://b"] },
+        ],
+      },
+    ]);
+  });
+
+  it("should report type mismatches at the parent path", () => {
+    const differences = diffResponses([
+      success("mock://a", null),
+      success("mock://b", { number: "0x1" }),
+    ]);
+
+    assert.strictEqual(differences.length, 1);
+    assert.strictEqual(differences[0]?.path, "$");
+  });
+
+  it("should ignore failed providers", () => {
+    const differences = diffResponses([
+      success("mock://a", "0x1"),
+      { url: "mock://b", status: "error", responseTime: 1, error: "down" },
+    ]);
+
+    assert.deepStrictEqual(differences, []);
+  });
+});
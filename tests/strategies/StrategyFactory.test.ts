@@ -4,6 +4,47 @@ import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
 import { FallbackStrategy } from "../../src/strategies/fallbackStrategy.js";
 import { ParallelStrategy } from "../../src/strategies/parallelStrategy.js";
 import type { StrategyConfig } from "../../src/strategies/requestStrategy.js";
+import type { RequestStrategy, StrategyResult } from "../../src/strategies/strategiesTypes.js";
+import type { Transport } from "../../src/transports/Transport.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { NetworkClient } from "../../src/NetworkClient.js";
+
+/**
+ * Custom strategy: asks the first provider and prefixes the method name
+ */
+class LabelStrategy implements RequestStrategy {
+  constructor(
+    readonly rpcClients: Transport[],
+    readonly label: string,
+  ) {}
+
+  async execute<T>(method: string, params: any[]): Promise<StrategyResult<T>> {
+    const data = await this.rpcClients[0]?.call<T>(method, params);
+    return {
+      success: true,
+      data: `${this.label}:${data}` as T,
+      metadata: {
+        strategy: "label",
+        timestamp: Date.now(),
+        responses: [],
+        hasInconsistencies: false,
+      },
+    };
+  }
+
+  getName(): string {
+    return "label";
+  }
+}
+
+declare module "explorer-network-connectors" {
+  interface StrategyTypes {
+    label: LabelStrategy;
+  }
+  interface StrategyConfig {
+    label?: string;
+  }
+}
 
 const TEST_URLS = ["https://eth.merkle.io", "https://ethereum.publicnode.com"];
 
@@ -120,3 +161,45 @@ describe("StrategyFactory - RpcUrlConfig Validation", () => {
     assert.ok(strategy, "Should handle URLs with ports");
   });
 });
+
+describe("StrategyFactory - Registration", () => {
+  StrategyFactory.register(
+    "label",
+    (rpcClients, config) => new LabelStrategy(rpcClients, config.label ?? "none"),
+  );
+
+  it("should create registered strategies with their config", async () => {
+    const strategy = StrategyFactory.create({
+      type: "label",
+      rpcUrls: [],
+      transports: [new MockTransport({ eth_chainId: "0x1" })],
+      label: "custom",
+    });
+
+    const result = await strategy.execute("eth_chainId", []);
+
+    assert.ok(strategy instanceof LabelStrategy);
+    assert.strictEqual(result.data, "custom:0x1");
+    assert.strictEqual(result.metadata?.strategy, "label");
+  });
+
+  it("should keep transports and custom config when a NetworkClient switches strategies", async () => {
+    const transport = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://provider" });
+    const client = new NetworkClient({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [transport],
+      label: "kept",
+    });
+
+    client.updateStrategy("label");
+    const result = await client.execute("eth_chainId");
+
+    assert.strictEqual(client.getStrategyName(), "label");
+    assert.strictEqual(result.data, "kept:0x1");
+    assert.strictEqual(transport.calls.length, 1);
+
+    client.updateStrategy("fallback");
+    assert.strictEqual((await client.execute("eth_chainId")).data, "0x1");
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Eip1193Transport } from "../../src/transports/Eip1193Transport.js";
+
+describe("Eip1193Transport", () => {
+  it("should forward calls to provider.request", async () => {
+    const seen: any[] = [];
+    const transport = new Eip1193Transport({
+      request: async (args) => {
+        seen.push(args);
+        return "0x1";
+      },
+    });
+
+    const result = await transport.call<string>("eth_chainId");
+
+    assert.strictEqual(result, "0x1", "Should return the provider result");
+    assert.deepStrictEqual(seen, [{ method: "eth_chainId", params: [] }], "Should pass args");
+    assert.strictEqual(transport.getUrl(), "eip1193://provider", "Should use the default URL");
+  });
+
+  it("should wrap provider error objects in Error", async () => {
+    const transport = new Eip1193Transport(
+      {
+        request: async () => {
+          throw { code: 4001, message: "User rejected the request" };
+        },
+      },
+      { url: "eip1193://wallet" },
+    );
+
+    await assert.rejects(transport.call("eth_requestAccounts"), (error: unknown) => {
+      assert.ok(error instanceof Error, "Should be an Error");
+      assert.match(error.message, /User rejected/, "Should keep the message");
+      return true;
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createServer, type Server } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IpcTransport } from "../../src/transports/IpcTransport.js";
+
+/**
+ * Start a Unix socket JSON-RPC stand-in that answers with the request method
+ * Responses are split into small chunks to exercise stream reassembly
+ */
+async function startIpcServer(): Promise<{ path: string; server: Server; cleanup(): void }> {
+  const dir = mkdtempSync(join(tmpdir(), "ipc-test-"));
+  const path = join(dir, "node.ipc");
+  const server = createServer((socket) => {
+    socket.setEncoding("utf8");
+    let buffer = "";
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const request = JSON.parse(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        const response = JSON.stringify({
+          jsonrpc: "2.0",
+          id: request.id,
+          result: { method: request.method, note: 'braces } { and "quotes" in strings' },
+        });
+        for (let i = 0; i < response.length; i += 7) {
+          socket.write(response.slice(i, i + 7));
+        }
+        newline = buffer.indexOf("\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(path, resolve));
+  return {
+    path,
+    server,
+    cleanup: () => {
+      server.close();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+describe("IpcTransport", () => {
+  it("should call a local node over a Unix socket", async () => {
+    const ipc = await startIpcServer();
+    const transport = new IpcTransport(`ipc://${ipc.path}`);
+    try {
+      const results = await Promise.all([
+        transport.call<any>("eth_chainId"),
+        transport.call<any>("eth_blockNumber"),
+      ]);
+
+      assert.deepStrictEqual(
+        results.map((r) => r.method),
+        ["eth_chainId", "eth_blockNumber"],
+        "Should reassemble chunked responses",
+      );
+      assert.strictEqual(results[0].note, 'braces } { and "quotes" in strings');
+    } finally {
+      transport.close();
+      ipc.cleanup();
+    }
+  });
+
+  it("should reject when the socket does not exist", async () => {
+    const transport = new IpcTransport(join(tmpdir(), "missing-node.ipc"));
+
+    await assert.rejects(transport.call("eth_chainId"), /ENOENT/);
+  });
+});
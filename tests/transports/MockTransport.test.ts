@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { callBatch } from "../../src/transports/Transport.js";
+import { RpcTimeoutError } from "../../src/RpcErrors.js";
+
+describe("MockTransport", () => {
+  it("should answer from a method map and record calls", async () => {
+    const transport = new MockTransport({
+      eth_chainId: "0x1",
+      eth_getBalance: (params: any[]) => (params[0] === "0xabc" ? "0x10" : "0x0"),
+    });
+
+    assert.strictEqual(await transport.call("eth_chainId"), "0x1");
+    assert.strictEqual(await transport.call("eth_getBalance", ["0xabc", "latest"]), "0x10");
+    assert.deepStrictEqual(
+      transport.calls.map((c) => c.method),
+      ["eth_chainId", "eth_getBalance"],
+      "Should record calls in order",
+    );
+  });
+
+  it("should reject unknown methods", async () => {
+    const transport = new MockTransport({});
+
+    await assert.rejects(transport.call("eth_chainId"), /does not exist/);
+  });
+
+  it("should accept a handler function", async () => {
+    const transport = new MockTransport((method, params) => `${method}:${params.length}`);
+
+    assert.strictEqual(await transport.call("eth_call", [{}, "latest"]), "eth_call:2");
+  });
+
+  it("should honour timeouts with artificial latency", async () => {
+    const transport = new MockTransport({ eth_chainId: "0x1" }, { latency: 100 });
+
+    await assert.rejects(transport.call("eth_chainId", [], { timeout: 10 }), RpcTimeoutError);
+  });
+
+  it("should batch through single calls when the transport has no native batching", async () => {
+    const transport = new MockTransport({ eth_chainId: "0x1" });
+
+    const results = await callBatch(transport, [{ method: "eth_chainId" }, { method: "nope" }]);
+
+    assert.deepStrictEqual(
+      results.map((r) => r.success),
+      [true, false],
+      "Items should settle independently",
+    );
+  });
+});
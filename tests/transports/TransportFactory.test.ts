@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { TransportFactory } from "../../src/transports/TransportFactory.js";
+import { RpcClient } from "../../src/RpcClient.js";
+import { WebSocketTransport } from "../../src/transports/WebSocketTransport.js";
+import { IpcTransport } from "../../src/transports/IpcTransport.js";
+import { MockTransport } from "../../src/transports/MockTransport.js";
+import { StrategyFactory } from "../../src/strategies/requestStrategy.js";
+
+class FakeWebSocket {
+  readyState = 0;
+  onopen = null;
+  onmessage = null;
+  onclose = null;
+  onerror = null;
+  send() {}
+  close() {}
+}
+
+describe("TransportFactory - Scheme Detection", () => {
+  it("should create RpcClient for http and https URLs", () => {
+    assert.ok(TransportFactory.create("http://localhost:8545") instanceof RpcClient);
+    assert.ok(TransportFactory.create("https://eth.merkle.io") instanceof RpcClient);
+  });
+
+  it("should create WebSocketTransport for ws and wss URLs", () => {
+    const options = { wsOptions: { WebSocket: FakeWebSocket as any } };
+
+    assert.ok(
+      TransportFactory.create("ws://localhost:8546", options) instanceof WebSocketTransport,
+    );
+    assert.ok(TransportFactory.create("wss://example.com", options) instanceof WebSocketTransport);
+  });
+
+  it("should create IpcTransport for ipc URLs", () => {
+    const transport = TransportFactory.create("ipc:///tmp/geth.ipc");
+
+    assert.ok(transport instanceof IpcTransport, "Should create IpcTransport");
+    assert.strictEqual(transport.getUrl(), "ipc:///tmp/geth.ipc", "Should keep the URL");
+  });
+
+  it("should create RpcClient for URLs without a scheme", () => {
+    const transport = TransportFactory.create("/api/rpc");
+
+    assert.ok(transport instanceof RpcClient, "Relative proxy paths should use HTTP");
+    assert.strictEqual(transport.getUrl(), "/api/rpc");
+  });
+
+  it("should reject unsupported schemes", () => {
+    assert.throws(() => TransportFactory.create("ftp://example.com"), /Unsupported transport URL/);
+  });
+});
+
+describe("TransportFactory - Mixed Providers in a Strategy", () => {
+  it("should mix URL-based and pre-built transports in one strategy", async () => {
+    const mock = new MockTransport({ eth_chainId: "0x1" }, { url: "mock://local" });
+    const strategy = StrategyFactory.create({
+      type: "parallel",
+      rpcUrls: ["http://127.0.0.1:1"],
+      transports: [mock],
+      timeout: 500,
+    });
+
+    const result = await strategy.execute<string>("eth_chainId", []);
+
+    assert.strictEqual(result.success, true, "Should succeed through the mock transport");
+    assert.deepStrictEqual(
+      result.metadata?.responses.map((r) => [r.url, r.status]),
+      [
+        ["http://127.0.0.1:1", "error"],
+        ["mock://local", "success"],
+      ],
+      "Should report both providers",
+    );
+  });
+
+  it("should skip WebSocket providers when the runtime has no WebSocket", async () => {
+    const globalWebSocket = (globalThis as any).WebSocket;
+    (globalThis as any).WebSocket = undefined;
+    try {
+      const strategy = StrategyFactory.create({
+        type: "fallback",
+        rpcUrls: ["wss://example.com"],
+        transports: [new MockTransport({ eth_chainId: "0x1" }, { url: "mock://local" })],
+      });
+
+      const result = await strategy.execute<string>("eth_chainId", []);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.data, "0x1");
+    } finally {
+      (globalThis as any).WebSocket = globalWebSocket;
+    }
+  });
+
+  it("should accept transports without any rpcUrls", () => {
+    const strategy = StrategyFactory.create({
+      type: "fallback",
+      rpcUrls: [],
+      transports: [new MockTransport({})],
+    });
+
+    assert.strictEqual(strategy.getName(), "fallback", "Should create the strategy");
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import WebSocket from "ws";
+import { WebSocketTransport } from "../../src/transports/WebSocketTransport.js";
+import { RpcTimeoutError } from "../../src/RpcErrors.js";
+import { startMockWsServer, waitFor } from "../helpers/mockWsServer.js";
+
+const wsOptions = { WebSocket: WebSocket as any };
+
+describe("WebSocketTransport - Calls", () => {
+  it("should send JSON-RPC calls over the socket", async () => {
+    const server = await startMockWsServer((request) =>
+      request.method === "eth_chainId" ? "0x1" : null,
+    );
+    const transport = new WebSocketTransport(server.url, wsOptions);
+    try {
+      const result = await transport.call<string>("eth_chainId");
+
+      assert.strictEqual(result, "0x1", "Should return the result");
+      assert.strictEqual(transport.getUrl(), server.url, "Should expose the URL");
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should reuse one connection for concurrent calls", async () => {
+    const server = await startMockWsServer(() => "0x1");
+    const transport = new WebSocketTransport(server.url, wsOptions);
+    try {
+      await Promise.all([transport.call("eth_chainId"), transport.call("eth_blockNumber")]);
+
+      assert.strictEqual(server.connections, 1, "Should open a single connection");
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should time out calls that get no answer", async () => {
+    const server = await startMockWsServer(() => undefined);
+    const transport = new WebSocketTransport(server.url, { ...wsOptions, timeout: 50 });
+    try {
+      await assert.rejects(transport.call("eth_chainId"), RpcTimeoutError);
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should reject pending calls when the connection drops", async () => {
+    const server = await startMockWsServer(() => undefined);
+    const transport = new WebSocketTransport(server.url, wsOptions);
+    try {
+      const pending = transport.call("eth_chainId");
+      await waitFor(() => server.requests.length === 1);
+      server.dropConnections();
+
+      await assert.rejects(pending, /closed/);
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should fail calls without a WebSocket implementation", async () => {
+    const globalWebSocket = (globalThis as any).WebSocket;
+    (globalThis as any).WebSocket = undefined;
+    try {
+      const transport = new WebSocketTransport("ws://localhost:1");
+
+      await assert.rejects(transport.call("eth_chainId"), /No WebSocket/);
+    } finally {
+      (globalThis as any).WebSocket = globalWebSocket;
+    }
+  });
+
+  it("should reject right away when the socket fails to send", async () => {
+    class ClosingSocket {
+      readyState = 1;
+      onopen: ((event: unknown) => void) | null = null;
+      onmessage = null;
+      onclose = null;
+      onerror = null;
+      constructor() {
+        setTimeout(() => this.onopen?.({}));
+      }
+      send(): void {
+        throw new Error("WebSocket is in CLOSING state");
+      }
+      close(): void {}
+    }
+    const transport = new WebSocketTransport("ws://localhost:1", {
+      WebSocket: ClosingSocket as any,
+    });
+
+    await assert.rejects(transport.call("eth_chainId"), /send to ws:\/\/localhost:1 failed/);
+    assert.strictEqual((transport as any).pending.size, 0, "No pending call left behind");
+    transport.close();
+  });
+});
+
+describe("WebSocketTransport - Subscriptions", () => {
+  it("should deliver notifications to the listener", async () => {
+    const server = await startMockWsServer();
+    const transport = new WebSocketTransport(server.url, wsOptions);
+    try {
+      const received: unknown[] = [];
+      await transport.subscribe(["newHeads"], (head) => received.push(head));
+
+      server.notify("0x1", { number: "0x10" });
+      await waitFor(() => received.length === 1);
+
+      assert.deepStrictEqual(received, [{ number: "0x10" }], "Should receive the notification");
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should stop delivering after unsubscribe", async () => {
+    const server = await startMockWsServer();
+    const transport = new WebSocketTransport(server.url, wsOptions);
+    try {
+      const received: unknown[] = [];
+      const subscription = await transport.subscribe(["newHeads"], (head) => received.push(head));
+
+      assert.strictEqual(await subscription.unsubscribe(), true, "Should unsubscribe");
+      server.notify("0x1", { number: "0x10" });
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      assert.strictEqual(received.length, 0, "Should not receive notifications");
+      assert.ok(
+        server.requests.some((r) => r.method === "eth_unsubscribe" && r.params[0] === "0x1"),
+        "Should send eth_unsubscribe with the server id",
+      );
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+
+  it("should reconnect and resubscribe after the connection drops", async () => {
+    const server = await startMockWsServer();
+    const transport = new WebSocketTransport(server.url, {
+      ...wsOptions,
+      reconnect: { delay: 10 },
+    });
+    try {
+      const received: unknown[] = [];
+      const subscription = await transport.subscribe(["logs", { address: "0xabc" }], (log) =>
+        received.push(log),
+      );
+
+      server.dropConnections();
+      await waitFor(() => server.connections === 2);
+      await waitFor(() => server.requests.filter((r) => r.method === "eth_subscribe").length === 2);
+      const resubscribe = server.requests.filter((r) => r.method === "eth_subscribe")[1];
+      assert.deepStrictEqual(
+        resubscribe.params,
+        ["logs", { address: "0xabc" }],
+        "Should resubscribe with the original params",
+      );
+
+      // The server hands out a new id on the new connection
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      server.notify("0x2", { logIndex: "0x0" });
+      await waitFor(() => received.length === 1);
+
+      assert.strictEqual(subscription.id, "1", "Local id should survive the reconnect");
+    } finally {
+      transport.close();
+      await server.close();
+    }
+  });
+});
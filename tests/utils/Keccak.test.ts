@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { keccak256 } from "../../src/utils/keccak.js";
+
+// Input of the given length with bytes 0x00, 0x01, ... 0xff, 0x00, ...
+const sequence = (length: number) =>
+  Array.from({ length }, (_, i) => (i & 0xff).toString(16).padStart(2, "0")).join("");
+
+describe("keccak256", () => {
+  it("should match the Keccak-256 known answer tests", () => {
+    assert.strictEqual(
+      keccak256("0x"),
+      "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+    );
+    assert.strictEqual(
+      keccak256("0xcc"),
+      "0xeead6dbfc7340a56caedc044696a168870549a6a7f6f56961e84a54bd9970b8a",
+    );
+    assert.strictEqual(
+      keccak256("0x41fb"),
+      "0xa8eaceda4d47b3281a795ad9e1ea2122b407baf9aabcb9e18b5717b7873537d2",
+    );
+  });
+
+  it("should match known digests of text", () => {
+    // "abc"
+    assert.strictEqual(
+      keccak256("616263"),
+      "0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+    );
+    // "The quick brown fox jumps over the lazy dog"
+    assert.strictEqual(
+      keccak256(
+        "0x54686520717569636b2062726f776e20666f78206a756d7073206f76657220746865206c617a7920646f67",
+      ),
+      "0x4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15",
+    );
+  });
+
+  it("should pad inputs around the 136-byte block boundary", () => {
+    assert.strictEqual(
+      keccak256(sequence(135)),
+      "0xcbdfd9dee5faad3818d6b06f95a219fd290b0e1706f6a82e5a595b9ce9faca62",
+    );
+    assert.strictEqual(
+      keccak256(sequence(136)),
+      "0x7ce759f1ab7f9ce437719970c26b0a66ff11fe3e38e17df89cf5d29c7d7f807e",
+    );
+    assert.strictEqual(
+      keccak256(sequence(137)),
+      "0xac73d4fae68b8453f764007c1a20ce95994187861f0c3227a3a8e99a73a3b1db",
+    );
+    assert.strictEqual(
+      keccak256(sequence(272)),
+      "0xfdf2ec49e749960d3c8521a0219af8d03e30e2b3bf19bd16150ee0eaf133d66e",
+    );
+  });
+
+  it("should accept upper-case hex", () => {
+    assert.strictEqual(keccak256("0xCC"), keccak256("0xcc"));
+  });
+
+  it("should reject invalid hex", () => {
+    assert.throws(() => keccak256("0xabc"), /Invalid hex input/);
+  });
+});